@@ -1,12 +1,24 @@
-import { useEffect, useMemo, useState } from "react";
+import {
+  Fragment,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
 import {
   Box,
   Button,
   Divider,
+  FormControlLabel,
   IconButton,
   MenuItem,
   Select,
   Stack,
+  Switch,
   TextField,
   Typography,
   Table,
@@ -24,6 +36,15 @@ import {
 } from "@mui/material";
 import ArrowBackIosNewIcon from "@mui/icons-material/ArrowBackIosNew";
 import ArrowForwardIosIcon from "@mui/icons-material/ArrowForwardIos";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteIcon from "@mui/icons-material/Delete";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import ArrowUpwardIcon from "@mui/icons-material/ArrowUpward";
+import ArrowDownwardIcon from "@mui/icons-material/ArrowDownward";
+import ArrowBackIcon from "@mui/icons-material/ArrowBack";
+import ArrowForwardIcon from "@mui/icons-material/ArrowForward";
+import UndoIcon from "@mui/icons-material/Undo";
+import RedoIcon from "@mui/icons-material/Redo";
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -34,43 +55,2100 @@ import {
   Tooltip,
   Legend,
 } from "chart.js";
-import type { ChartDataset } from "chart.js";
+import type { ActiveElement, ChartDataset, ChartEvent } from "chart.js";
 import { Line } from "react-chartjs-2";
 
-ChartJS.register(
-  CategoryScale,
-  LinearScale,
-  PointElement,
-  LineElement,
-  Filler,
-  Tooltip,
-  Legend
-);
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Tooltip,
+  Legend
+);
+
+type TriangularNumber = { left: number; middle: number; right: number };
+type GaussianNumber = { mean: number; sigma: number };
+type TermShape =
+  "triangular" | "trapezoidal" | "gaussian" | "leftShoulder" | "rightShoulder";
+type LinguisticTerm = {
+  name: string;
+  shortName: string;
+  // Трикутна форма, якщо не задано (старі проєкти)
+  shape?: TermShape;
+  // Трикутник, а також ліве/праве плече: left, middle (край плато), right
+  tri: TriangularNumber;
+  trap?: Trapeze; // трапеційний терм (a, b, c, d)
+  gauss?: GaussianNumber; // гауссів терм (mean, sigma)
+};
+// A cell is either a from/to pair or a free-text expression such as
+// "between L and H"; the expression is kept exactly as the expert typed it
+type CellValue = { from?: string; to?: string; expression?: string };
+// Експерт зі своєю матрицею оцінок (альтернативи × критерії)
+type Expert = { name: string; weight: number; tableData: CellValue[][] };
+type ExpertMergeMode = "union" | "intersection" | "weighted";
+type CalculationMethod =
+  "generalized" | "pessimistic" | "optimistic" | "hurwicz";
+type Trapeze = { a: number; b: number; c: number; d: number }; // Трапеційний терм (a, b, c, d) [4]
+type Interval = { l: number; r: number }; // Інтервал α-перерізу [l, r] [5]
+// Вага критерію: число або лінгвістичний терм важливості
+type CriterionWeight = { value: number; importance?: string };
+type CriterionType = "benefit" | "cost";
+// Name and description of an alternative (row) or criterion (column)
+type MatrixItem = { name: string; description: string };
+type AggregationOperator =
+  | "minMax"
+  | "weightedMinMax"
+  | "weightedAverage"
+  | "arithmeticMean"
+  | "geometricMean"
+  | "owaMost"
+  | "owaAtLeastHalf"
+  | "owaAsManyAsPossible";
+// Еталонний інтервал показника ймовірності: фіксований інтервал,
+// α-переріз лінгвістичного терму або підсумковий інтервал цільової альтернативи
+type ProbabilityReference =
+  | { kind: "fixed"; interval: Interval }
+  | { kind: "term"; shortName: string }
+  | { kind: "alternative"; index: number };
+// Еталон з розкритим термом: його α-переріз береться при поточному α
+type ResolvedReference =
+  | { kind: "fixed"; interval: Interval }
+  | { kind: "term"; trapeze: Trapeze }
+  | { kind: "alternative"; index: number };
+type AggregationSettings = {
+  operator: AggregationOperator;
+  weights: number[];
+  universe: Interval;
+  // Коефіцієнт оптимізму λ методу Гурвіца
+  optimism: number;
+  reference: ResolvedReference;
+};
+
+// New type to hold calculation results for display in the main table
+type DisplayResult = {
+  // generalized
+  genInterval?: Interval;
+  genProbability?: number;
+  // pessimistic
+  pessInterval?: Interval;
+  pessProbability?: number;
+  // optimistic
+  optInterval?: Interval;
+  optProbability?: number;
+  // Hurwicz: pessimistic and optimistic intervals blended by λ
+  hurInterval?: Interval;
+  hurProbability?: number;
+  // per-expert probabilities for the selected method (several experts only)
+  expertProbabilities?: number[];
+};
+
+const orderTriangular = (t: TriangularNumber): TriangularNumber => {
+  const left = Math.min(t.left, t.middle, t.right);
+  const right = Math.max(t.left, t.middle, t.right);
+  const sum = t.left + t.middle + t.right;
+  const middle = Math.max(left, Math.min(right, sum - left - right));
+  return { left, middle, right };
+};
+
+const isTriComplete = (tri: TriangularNumber) =>
+  Number.isFinite(tri.left) &&
+  Number.isFinite(tri.middle) &&
+  Number.isFinite(tri.right);
+
+const TERM_SHAPES: TermShape[] = [
+  "triangular",
+  "trapezoidal",
+  "gaussian",
+  "leftShoulder",
+  "rightShoulder",
+];
+const TERM_SHAPE_LABELS: Record<TermShape, string> = {
+  triangular: "Triangular",
+  trapezoidal: "Trapezoidal",
+  gaussian: "Gaussian",
+  leftShoulder: "Left shoulder",
+  rightShoulder: "Right shoulder",
+};
+// Носій гауссового терму обрізаємо на ±3σ (μ ≈ 0.011 на краях)
+const GAUSSIAN_SUPPORT_SIGMAS = 3;
+
+const orderTrapeze = (t: Trapeze): Trapeze => {
+  const [a, b, c, d] = [t.a, t.b, t.c, t.d].sort((x, y) => x - y);
+  return { a, b, c, d };
+};
+
+const isTermComplete = (term: LinguisticTerm) => {
+  const shape = term.shape ?? "triangular";
+  if (shape === "trapezoidal")
+    return (
+      !!term.trap &&
+      [term.trap.a, term.trap.b, term.trap.c, term.trap.d].every(
+        Number.isFinite
+      )
+    );
+  if (shape === "gaussian")
+    return (
+      !!term.gauss &&
+      Number.isFinite(term.gauss.mean) &&
+      Number.isFinite(term.gauss.sigma)
+    );
+  return isTriComplete(term.tri);
+};
+
+const getTermShapeError = (term: LinguisticTerm) => {
+  if (!isTermComplete(term)) return "Fill all fields";
+  const shape = term.shape ?? "triangular";
+  if (shape === "trapezoidal" && term.trap) {
+    const { a, d } = orderTrapeze(term.trap);
+    return a === d ? "Require a < d" : "";
+  }
+  if (shape === "gaussian" && term.gauss)
+    return term.gauss.sigma > 0 ? "" : "Sigma must be positive";
+  const { left, middle, right } = term.tri;
+  if (left === middle && middle === right)
+    return "Require left < middle or  middle < right";
+  return "";
+};
+
+// Обвідна трапеція терму будь-якої форми: носій [a, d], ядро [b, c]
+const getTermTrapeze = (term: LinguisticTerm): Trapeze => {
+  const shape = term.shape ?? "triangular";
+  if (shape === "trapezoidal" && term.trap) return orderTrapeze(term.trap);
+  if (shape === "gaussian" && term.gauss) {
+    const { mean, sigma } = term.gauss;
+    const spread = GAUSSIAN_SUPPORT_SIGMAS * Math.abs(sigma);
+    return { a: mean - spread, b: mean, c: mean, d: mean + spread };
+  }
+  const { left, middle, right } = orderTriangular(term.tri);
+  if (shape === "leftShoulder")
+    return { a: left, b: left, c: middle, d: right };
+  if (shape === "rightShoulder")
+    return { a: left, b: middle, c: right, d: right };
+  return { a: left, b: middle, c: middle, d: right };
+};
+
+// Функція належності μ(x) терму
+const getMembership = (term: LinguisticTerm, x: number) => {
+  if (term.shape === "gaussian" && term.gauss) {
+    const { mean, sigma } = term.gauss;
+    return Math.exp(-((x - mean) ** 2) / (2 * sigma ** 2));
+  }
+  const { a, b, c, d } = getTermTrapeze(term);
+  if (x < a || x > d) return 0;
+  if (x >= b && x <= c) return 1;
+  if (x < b) return (x - a) / (b - a || 1);
+  return (d - x) / (d - c || 1);
+};
+
+const formatTermParams = (term: LinguisticTerm) => {
+  const shape = term.shape ?? "triangular";
+  if (shape === "trapezoidal" && term.trap) {
+    const { a, b, c, d } = term.trap;
+    return `a = ${a}, b = ${b}, c = ${c}, d = ${d}`;
+  }
+  if (shape === "gaussian" && term.gauss)
+    return `mean = ${term.gauss.mean}, sigma = ${term.gauss.sigma}`;
+  const { left, middle, right } = term.tri;
+  return `left = ${left}, middle = ${middle}, right = ${right}`;
+};
+
+// ----- Генератор стандартних шкал -----
+type ScalePattern = "uniform" | "symmetric" | "detailLow" | "detailHigh";
+const SCALE_PATTERN_LABELS: Record<ScalePattern, string> = {
+  uniform: "Uniform overlapping triangles",
+  symmetric: "Symmetric, centered on Medium",
+  detailLow: "Unbalanced, more detail on the low side",
+  detailHigh: "Unbalanced, more detail on the high side",
+};
+
+// Назви однієї сторони шкали від центру назовні, для k термів на сторону
+const SCALE_SIDE_NAMES: Record<number, string[]> = {
+  0: [],
+  1: ["Low"],
+  2: ["Low", "Very Low"],
+  3: ["Medium Low", "Low", "Very Low"],
+  4: ["Medium Low", "Low", "Very Low", "Extremely Low"],
+};
+
+const toShortName = (name: string) =>
+  name
+    .split(" ")
+    .map((word) => word[0])
+    .join("")
+    .toUpperCase();
+
+const getStandardTermNames = (count: number): string[] => {
+  const perSide = Math.floor(count / 2);
+  const lowSide = SCALE_SIDE_NAMES[perSide];
+  // Larger scales fall back to numbered levels
+  if (!lowSide)
+    return Array.from({ length: count }, (_, i) => `Level ${i + 1}`);
+  const highSide = lowSide.map((name) => name.replace("Low", "High"));
+  return [
+    ...[...lowSide].reverse(),
+    ...(count % 2 === 1 ? ["Medium"] : []),
+    ...highSide,
+  ];
+};
+
+// Вершини термів на [0, 1]: рівномірно, щільніше до центру або до краю
+const warpScalePosition = (u: number, pattern: ScalePattern) => {
+  if (pattern === "symmetric") {
+    const t = 2 * u - 1;
+    return 0.5 + 0.5 * Math.sign(t) * Math.abs(t) ** 1.5;
+  }
+  if (pattern === "detailLow") return u ** 2;
+  if (pattern === "detailHigh") return 1 - (1 - u) ** 2;
+  return u;
+};
+
+// Трикутники перекриваються так, що сусідні вершини є краями носія:
+// сума належностей на [min, max] дорівнює 1
+const generateTermScale = (
+  count: number,
+  min: number,
+  max: number,
+  pattern: ScalePattern
+): LinguisticTerm[] => {
+  const names = getStandardTermNames(count);
+  const middles = names.map((_, i) => {
+    const u = count === 1 ? 0.5 : i / (count - 1);
+    return Number(
+      (min + (max - min) * warpScalePosition(u, pattern)).toFixed(6)
+    );
+  });
+  return names.map((name, i) => ({
+    name,
+    shortName: name.startsWith("Level") ? `T${i + 1}` : toShortName(name),
+    tri: {
+      left: i === 0 ? min : middles[i - 1],
+      middle: middles[i],
+      right: i === count - 1 ? max : middles[i + 1],
+    },
+  }));
+};
+
+// ----- Нормалізація шкали -----
+// Лінійне перетворення всіх термів з одиниць експертів (source) у target;
+// обернене перетворення повертає вихідні одиниці
+type ScaleNormalization = { source: Interval; target: Interval };
+
+const isValidRange = (range: Interval) =>
+  Number.isFinite(range.l) && Number.isFinite(range.r) && range.l < range.r;
+
+// Округлення прибирає хвости на кшталт 0.30000000000000004
+const rescaleValue = (x: number, from: Interval, to: Interval) =>
+  Number(
+    (to.l + ((x - from.l) * (to.r - to.l)) / (from.r - from.l)).toFixed(10)
+  );
+
+const rescaleTerm = (
+  term: LinguisticTerm,
+  from: Interval,
+  to: Interval
+): LinguisticTerm => {
+  const map = (x: number) => rescaleValue(x, from, to);
+  const { tri, trap, gauss } = term;
+  return {
+    ...term,
+    tri: {
+      left: map(tri.left),
+      middle: map(tri.middle),
+      right: map(tri.right),
+    },
+    trap: trap && {
+      a: map(trap.a),
+      b: map(trap.b),
+      c: map(trap.c),
+      d: map(trap.d),
+    },
+    gauss: gauss && {
+      mean: map(gauss.mean),
+      sigma: Number(
+        ((gauss.sigma * (to.r - to.l)) / (from.r - from.l)).toFixed(10)
+      ),
+    },
+  };
+};
+
+// ----- Діагностика шкали термів -----
+// Метод припускає, що терми впорядковані за центрами ("over"/"less" беруть
+// сусідів за порядком масиву), покривають універсум без розривів і
+// бажано утворюють розбиття одиниці
+type ScaleIssueKind =
+  "order" | "gap" | "containment" | "asymmetry" | "partition";
+type ScaleIssue = { kind: ScaleIssueKind; message: string };
+
+const SCALE_CHECK_SAMPLES = 200;
+const PARTITION_TOLERANCE = 0.05;
+// Сусідні перекриття, менші за половину іншого, вважаються асиметричними
+const OVERLAP_SYMMETRY_RATIO = 0.5;
+
+const getTermCenter = (term: LinguisticTerm) => {
+  if (term.shape === "gaussian" && term.gauss) return term.gauss.mean;
+  const { b, c } = getTermTrapeze(term);
+  return (b + c) / 2;
+};
+
+const sortTermsByCenter = (terms: LinguisticTerm[]) =>
+  [...terms].sort((x, y) => getTermCenter(x) - getTermCenter(y));
+
+const formatScaleValue = (x: number) => Number(x.toFixed(4));
+
+const diagnoseTermScale = (terms: LinguisticTerm[]): ScaleIssue[] => {
+  const complete = terms.filter(isTermComplete);
+  if (complete.length < 2) return [];
+  const issues: ScaleIssue[] = [];
+
+  const centers = complete.map(getTermCenter);
+  const outOfOrder = complete.findIndex(
+    (_, i) => i > 0 && centers[i] < centers[i - 1]
+  );
+  if (outOfOrder !== -1)
+    issues.push({
+      kind: "order",
+      message: `${complete[outOfOrder].shortName} (center ${formatScaleValue(centers[outOfOrder])}) comes after ${complete[outOfOrder - 1].shortName} (center ${formatScaleValue(centers[outOfOrder - 1])}); "over" and "less" follow the list order`,
+    });
+
+  const sorted = sortTermsByCenter(complete);
+  const supports = sorted.map(getTermTrapeze);
+  let reach = supports[0].d;
+  for (let i = 1; i < sorted.length; i++) {
+    if (supports[i].a > reach)
+      issues.push({
+        kind: "gap",
+        message: `No term covers (${formatScaleValue(reach)}, ${formatScaleValue(supports[i].a)}) before ${sorted[i].shortName}`,
+      });
+    reach = Math.max(reach, supports[i].d);
+  }
+
+  const min = Math.min(...supports.map((t) => t.a));
+  const max = Math.max(...supports.map((t) => t.d));
+  const xs = Array.from(
+    { length: SCALE_CHECK_SAMPLES + 1 },
+    (_, k) => min + ((max - min) * k) / SCALE_CHECK_SAMPLES
+  );
+  const memberships = complete.map((t) => xs.map((x) => getMembership(t, x)));
+
+  complete.forEach((outer, i) =>
+    complete.forEach((inner, j) => {
+      if (i === j) return;
+      const isContained = memberships[j].every(
+        (mu, k) => mu <= memberships[i][k] + 1e-9
+      );
+      // Однакові терми повідомляємо один раз
+      const isSame = memberships[i].every(
+        (mu, k) => Math.abs(mu - memberships[j][k]) < 1e-9
+      );
+      if (isContained && (!isSame || i < j))
+        issues.push({
+          kind: "containment",
+          message: isSame
+            ? `${outer.shortName} and ${inner.shortName} have the same membership function`
+            : `${outer.shortName} fully contains ${inner.shortName}`,
+        });
+    })
+  );
+
+  for (let i = 1; i < sorted.length - 1; i++) {
+    const left = Math.max(0, supports[i - 1].d - supports[i].a);
+    const right = Math.max(0, supports[i].d - supports[i + 1].a);
+    const larger = Math.max(left, right);
+    if (larger > 0 && Math.min(left, right) / larger < OVERLAP_SYMMETRY_RATIO)
+      issues.push({
+        kind: "asymmetry",
+        message: `${sorted[i].shortName} overlaps ${sorted[i - 1].shortName} by ${formatScaleValue(left)} but ${sorted[i + 1].shortName} by ${formatScaleValue(right)}`,
+      });
+  }
+
+  const sums = xs.map((_, k) =>
+    memberships.reduce((sum, mu) => sum + mu[k], 0)
+  );
+  const worst = sums.reduce(
+    (best, sum, k) => (Math.abs(sum - 1) > Math.abs(sums[best] - 1) ? k : best),
+    0
+  );
+  if (Math.abs(sums[worst] - 1) > PARTITION_TOLERANCE)
+    issues.push({
+      kind: "partition",
+      message: `Memberships do not sum to 1: ${formatScaleValue(sums[worst])} at x = ${formatScaleValue(xs[worst])}`,
+    });
+
+  return issues;
+};
+
+// Переносить ліву/праву межу носія терму; гауссові терми не змінюються,
+// а плече не може зсунути свій плаский бік
+const setTermFeet = (
+  term: LinguisticTerm,
+  feet: { a?: number; d?: number }
+): LinguisticTerm => {
+  const shape = term.shape ?? "triangular";
+  if (shape === "gaussian") return term;
+  if (shape === "trapezoidal" && term.trap) {
+    const trap = orderTrapeze(term.trap);
+    return {
+      ...term,
+      trap: { ...trap, a: feet.a ?? trap.a, d: feet.d ?? trap.d },
+    };
+  }
+  const tri = orderTriangular(term.tri);
+  return {
+    ...term,
+    tri: {
+      left: shape === "leftShoulder" ? tri.left : (feet.a ?? tri.left),
+      middle: tri.middle,
+      right: shape === "rightShoulder" ? tri.right : (feet.d ?? tri.right),
+    },
+  };
+};
+
+// Розриви закриваємо, продовжуючи сусідні терми до ядра один одного
+const closeTermGaps = (terms: LinguisticTerm[]) => {
+  const sorted = sortTermsByCenter(terms);
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = getTermTrapeze(sorted[i - 1]);
+    const next = getTermTrapeze(sorted[i]);
+    if (next.a <= prev.d) continue;
+    sorted[i - 1] = setTermFeet(sorted[i - 1], { d: next.b });
+    sorted[i] = setTermFeet(sorted[i], { a: prev.c });
+  }
+  return sorted;
+};
+
+// Рівномірне розбиття одиниці на тому ж універсумі зі збереженням назв
+const rebuildAsPartition = (terms: LinguisticTerm[]) => {
+  const sorted = sortTermsByCenter(terms);
+  const supports = sorted.map(getTermTrapeze);
+  const generated = generateTermScale(
+    sorted.length,
+    Math.min(...supports.map((t) => t.a)),
+    Math.max(...supports.map((t) => t.d)),
+    "uniform"
+  );
+  return generated.map((term, i) => ({
+    ...term,
+    name: sorted[i].name,
+    shortName: sorted[i].shortName,
+  }));
+};
+
+// Хелпер функція для застосування α-перерізу (Крок 5)
+const getIntervalFromTrapeze = (trapeze: Trapeze, alpha: number): Interval => {
+  const { a, b, c, d } = trapeze;
+  // Формула (1): [l, r] = [α*b + (1-α)*a, α*c + (1-α)*d] [5]
+  // PDF Formula (1) is [α(a₂-a₁)+a₁, a₄-α(a₄-a₃)]
+  // l = a + α(b - a) = a(1-α) + αb
+  // r = d - α(d - c) = d(1-α) + αc
+  const l = alpha * b + (1 - alpha) * a;
+  const r = alpha * c + (1 - alpha) * d;
+  return { l: l, r: r };
+};
+
+// Дзеркальне відображення трапеції на універсумі термів: для критерію витрат
+// "більше" означає "гірше", тому терм переходить на протилежний бік шкали
+const mirrorTrapeze = (
+  { a, b, c, d }: Trapeze,
+  universe: Interval
+): Trapeze => {
+  const sum = universe.l + universe.r;
+  return { a: sum - d, b: sum - c, c: sum - b, d: sum - a };
+};
+
+const EXPERT_MERGE_LABELS: Record<ExpertMergeMode, string> = {
+  union: "Union",
+  intersection: "Intersection",
+  weighted: "Weighted majority",
+};
+
+const createExpert = (name: string, tableData: CellValue[][]): Expert => ({
+  name,
+  weight: 1,
+  tableData,
+});
+
+const createEmptyTable = (rows: number, cols: number): CellValue[][] =>
+  Array.from({ length: rows }, () =>
+    Array.from({ length: cols }, () => ({
+      from: undefined,
+      to: undefined,
+    }))
+  );
+
+// Об'єднання оцінок експертів для однієї клітинки у груповий набір термів.
+// Порядок термів шкали зберігається; якщо експерти не мають спільних термів
+// (перетин або зважена більшість порожні), використовується об'єднання
+const mergeExpertLTSets = (
+  sets: string[][],
+  weights: number[],
+  mode: ExpertMergeMode,
+  termShortNames: string[]
+): string[] => {
+  const union = termShortNames.filter((n) => sets.some((s) => s.includes(n)));
+  let merged = union;
+  if (mode === "intersection") {
+    merged = union.filter((n) => sets.every((s) => s.includes(n)));
+  } else if (mode === "weighted") {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    // Терм залишається, якщо його підтримує не менше половини ваги експертів
+    merged = union.filter((n) => {
+      const support = sets.reduce(
+        (sum, s, k) => (s.includes(n) ? sum + (total ? weights[k] : 1) : sum),
+        0
+      );
+      return support >= (total || sets.length) / 2;
+    });
+  }
+  return merged.length > 0 ? merged : union;
+};
+
+// Splits CSV or tab-separated text (a spreadsheet paste) into cells.
+// Quoted fields may contain delimiters, quotes ("") and line breaks
+const parseDelimitedText = (text: string): string[][] => {
+  const delimiter = text.includes("\t")
+    ? "\t"
+    : text.includes(";") && !text.includes(",")
+      ? ";"
+      : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch !== '"') field += ch;
+      else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else inQuotes = false;
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Only trailing blank lines go: an empty row in the middle is an unrated
+  // alternative and must keep its place
+  const isBlank = (r: string[]) => r.every((cell) => cell.trim() === "");
+  while (rows.length > 0 && isBlank(rows[rows.length - 1])) rows.pop();
+  return rows;
+};
+
+// ----- Linguistic expressions in cells -----
+// expr    := unary ("or" unary)*
+// unary   := "not" unary | primary
+// primary := TERM | "(" expr ")" | ("between" | "within") TERM "and" TERM
+//          | "at least" TERM | "at most" TERM | "over" TERM | "less" TERM
+// Ranges include their bounds and follow the order of the term array.
+// term is the index of the short name the token matched
+type ExpressionToken = {
+  text: string;
+  start: number;
+  end: number;
+  term?: number;
+};
+
+class ExpressionSyntaxError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.start = start;
+    this.end = end;
+  }
+}
+
+const EXPRESSION_KEYWORDS = [
+  "between",
+  "within",
+  "and",
+  "at",
+  "least",
+  "most",
+  "over",
+  "less",
+  "not",
+  "or",
+];
+
+// Short names are matched first, longest first, so they may contain spaces
+// and parentheses or look like a keyword; an exact match is always the term
+const tokenizeExpression = (
+  text: string,
+  shortNames: string[]
+): ExpressionToken[] => {
+  const names = shortNames
+    .map((name, index) => ({ name: name.trim(), index }))
+    .filter(({ name }) => name !== "")
+    .sort((x, y) => y.name.length - x.name.length);
+  const isBoundary = (ch: string | undefined) =>
+    ch === undefined || /[\s()]/.test(ch);
+
+  const tokens: ExpressionToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    const match = names.find(
+      ({ name }) =>
+        text.startsWith(name, i) &&
+        (isBoundary(text[i + name.length]) || isBoundary(name.at(-1)))
+    );
+    const length =
+      match?.name.length ??
+      (text[i] === "(" || text[i] === ")"
+        ? 1
+        : (text.slice(i).match(/^[^\s()]+/)?.[0].length ?? 1));
+    tokens.push({
+      text: text.slice(i, i + length),
+      start: i,
+      end: i + length,
+      term: match?.index,
+    });
+    i += length;
+  }
+  return tokens;
+};
+
+// Returns the matching short names in scale order, or the error with the
+// position of the offending text
+const parseTermExpression = (
+  text: string,
+  shortNames: string[]
+): { terms: string[] } | { error: string; start: number; end: number } => {
+  const tokens = tokenizeExpression(text, shortNames);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isKeyword = (token: ExpressionToken | undefined, word: string) =>
+    token?.term === undefined && token?.text.toLowerCase() === word;
+  const isParen = (token: ExpressionToken | undefined, paren: string) =>
+    token?.term === undefined && token?.text === paren;
+  const fail = (message: string, token = peek()): never => {
+    throw new ExpressionSyntaxError(
+      message,
+      token?.start ?? text.length,
+      token?.end ?? text.length
+    );
+  };
+  const expectKeyword = (word: string) => {
+    if (!isKeyword(peek(), word)) fail(`Expected "${word}"`);
+    pos++;
+  };
+  const readTerm = (): number => {
+    const token = peek();
+    if (!token) return fail("Expected a term short name");
+    const index = token.term ?? -1;
+    if (index === -1)
+      fail(
+        EXPRESSION_KEYWORDS.includes(token.text.toLowerCase()) ||
+          token.text === "(" ||
+          token.text === ")"
+          ? `Expected a term short name, found "${token.text}"`
+          : `Unknown term "${token.text}"`
+      );
+    pos++;
+    return index;
+  };
+  const range = (from: number, to: number) => {
+    const result = new Set<number>();
+    for (let i = Math.min(from, to); i <= Math.max(from, to); i++)
+      result.add(i);
+    return result;
+  };
+
+  const parsePrimary = (): Set<number> => {
+    const token = peek();
+    if (isParen(token, "(")) {
+      pos++;
+      const inner = parseOr();
+      if (!isParen(peek(), ")")) fail('Expected ")"');
+      pos++;
+      return inner;
+    }
+    if (isKeyword(token, "between") || isKeyword(token, "within")) {
+      pos++;
+      const from = readTerm();
+      expectKeyword("and");
+      return range(from, readTerm());
+    }
+    if (isKeyword(token, "at")) {
+      pos++;
+      if (isKeyword(peek(), "least")) {
+        pos++;
+        return range(readTerm(), shortNames.length - 1);
+      }
+      if (isKeyword(peek(), "most")) {
+        pos++;
+        return range(0, readTerm());
+      }
+      return fail('Expected "least" or "most"');
+    }
+    if (isKeyword(token, "over")) {
+      pos++;
+      return range(readTerm(), shortNames.length - 1);
+    }
+    if (isKeyword(token, "less")) {
+      pos++;
+      return range(0, readTerm());
+    }
+    return new Set([readTerm()]);
+  };
+
+  const parseUnary = (): Set<number> => {
+    if (!isKeyword(peek(), "not")) return parsePrimary();
+    pos++;
+    const excluded = parseUnary();
+    return new Set(shortNames.map((_, i) => i).filter((i) => !excluded.has(i)));
+  };
+
+  const parseOr = (): Set<number> => {
+    const result = parseUnary();
+    while (isKeyword(peek(), "or")) {
+      pos++;
+      parseUnary().forEach((i) => result.add(i));
+    }
+    return result;
+  };
+
+  try {
+    if (tokens.length === 0) fail("Expression is empty");
+    const indices = parseOr();
+    if (pos < tokens.length)
+      fail(`Unexpected "${tokens[pos].text}", expected "or" or the end`);
+    if (indices.size === 0)
+      return {
+        error: "Expression matches no terms",
+        start: 0,
+        end: text.length,
+      };
+    return { terms: shortNames.filter((_, i) => indices.has(i)) };
+  } catch (err) {
+    if (err instanceof ExpressionSyntaxError)
+      return { error: err.message, start: err.start, end: err.end };
+    throw err;
+  }
+};
+
+// Completions for the word being typed at the end of the expression
+const getExpressionSuggestions = (text: string, shortNames: string[]) => {
+  const partial = text.match(/[^\s()]*$/)?.[0] ?? "";
+  const candidates = [
+    ...shortNames,
+    "between",
+    "at least",
+    "at most",
+    "not",
+    "or",
+    "and",
+  ];
+  return candidates.filter(
+    (c) =>
+      c !== partial &&
+      (shortNames.includes(c)
+        ? c.startsWith(partial)
+        : c.startsWith(partial.toLowerCase()))
+  );
+};
+
+// Reads a cell written the way getCellText shows it: "H", "within L and H",
+// "over M" or "less M", or any other linguistic expression. An empty cell
+// stays empty
+const parseCellText = (
+  text: string,
+  shortNames: string[]
+): { cell: CellValue } | { error: string } => {
+  const value = text.trim();
+  if (value === "") return { cell: {} };
+
+  const parsed = parseTermExpression(value, shortNames);
+  if ("error" in parsed) return { error: `${parsed.error} in "${value}"` };
+
+  const within = value.match(/^within\s+(.+?)\s+and\s+(.+)$/i);
+  const over = value.match(/^over\s+(.+)$/i);
+  const less = value.match(/^less\s+(.+)$/i);
+  const from = within?.[1] ?? over?.[1] ?? (less ? undefined : value);
+  const to = within?.[2] ?? less?.[1] ?? (over ? undefined : value);
+
+  const isFromTo = [from, to].every(
+    (shortName) =>
+      shortName === undefined || shortNames.includes(shortName.trim())
+  );
+  // Everything beyond the from/to wording is kept as an expression
+  if (!isFromTo) return { cell: { expression: value } };
+  return { cell: { from: from?.trim(), to: to?.trim() } };
+};
+
+// Parses a pasted or loaded matrix. An extra first row and first column are
+// taken as alternative and criteria labels and skipped. A blank line is an
+// unrated alternative: all of its cells stay empty
+const parseMatrixText = (
+  text: string,
+  shortNames: string[],
+  alternativeNames: string[],
+  criteriaNames: string[]
+): { tableData: CellValue[][]; errors: string[] } => {
+  const rows = alternativeNames.length;
+  const cols = criteriaNames.length;
+  let grid = parseDelimitedText(text);
+  if (grid.length === rows + 1) grid = grid.slice(1);
+  if (grid.length !== rows)
+    return {
+      tableData: [],
+      errors: [`Expected ${rows} rows (alternatives), found ${grid.length}`],
+    };
+  const isBlank = (r: string[]) => r.every((cell) => cell.trim() === "");
+  const hasLabels = grid.every((r) => isBlank(r) || r.length === cols + 1);
+  grid = grid.map((r) =>
+    isBlank(r)
+      ? Array.from({ length: cols }, () => "")
+      : hasLabels
+        ? r.slice(1)
+        : r
+  );
+
+  const errors: string[] = [];
+  const tableData = grid.map((r, i) => {
+    if (r.length !== cols) {
+      errors.push(
+        `Row ${i + 1} (${alternativeNames[i]}): expected ${cols} cells (criterias), found ${r.length}`
+      );
+      return [];
+    }
+    return r.map((text, j) => {
+      const parsed = parseCellText(text, shortNames);
+      if ("error" in parsed) {
+        errors.push(
+          `Row ${i + 1} (${alternativeNames[i]}), column ${j + 1} (${criteriaNames[j]}): ${parsed.error}`
+        );
+        return {};
+      }
+      return parsed.cell;
+    });
+  });
+  return { tableData, errors };
+};
+
+// Fixed scale for criterion importance
+const IMPORTANCE_TERMS = [
+  { shortName: "VL", name: "Very low", weight: 0.1 },
+  { shortName: "L", name: "Low", weight: 0.3 },
+  { shortName: "M", name: "Medium", weight: 0.5 },
+  { shortName: "H", name: "High", weight: 0.7 },
+  { shortName: "VH", name: "Very high", weight: 0.9 },
+];
+
+const AGGREGATION_OPERATORS: AggregationOperator[] = [
+  "minMax",
+  "weightedMinMax",
+  "weightedAverage",
+  "arithmeticMean",
+  "geometricMean",
+  "owaMost",
+  "owaAtLeastHalf",
+  "owaAsManyAsPossible",
+];
+const AGGREGATION_LABELS: Record<AggregationOperator, string> = {
+  minMax: "Min / max",
+  weightedMinMax: "Weighted min / max",
+  weightedAverage: "Interval weighted average",
+  arithmeticMean: "Arithmetic mean",
+  geometricMean: "Geometric mean",
+  owaMost: 'OWA, "most"',
+  owaAtLeastHalf: 'OWA, "at least half"',
+  owaAsManyAsPossible: 'OWA, "as many as possible"',
+};
+
+// Formula (3) compares every interval with [0, 1]
+const DEFAULT_REFERENCE: Extract<ProbabilityReference, { kind: "fixed" }> = {
+  kind: "fixed",
+  interval: { l: 0, r: 1 },
+};
+const REFERENCE_KIND_LABELS: Record<ProbabilityReference["kind"], string> = {
+  fixed: "Fixed interval",
+  term: "Term α-cut",
+  alternative: "Target alternative",
+};
+
+// A deleted term or alternative, or a fixed range with l > r, leaves
+// nothing to compare with
+const resolveReference = (
+  reference: ProbabilityReference,
+  terms: LinguisticTerm[],
+  numAlternatives: number
+): ResolvedReference | null => {
+  if (reference.kind === "fixed")
+    return reference.interval.l <= reference.interval.r ? reference : null;
+  if (reference.kind === "alternative")
+    return reference.index < numAlternatives ? reference : null;
+  const term = terms.find(
+    (t) => t.shortName === reference.shortName && isTermComplete(t)
+  );
+  return term ? { kind: "term", trapeze: getTermTrapeze(term) } : null;
+};
+
+// Averaging operators give the same value for lower and upper bounds:
+// pessimistic, optimistic and Hurwicz end with the same interval, so only the
+// generalized method is offered while one of them is selected
+const isAveragingOperator = (operator: AggregationOperator) =>
+  operator !== "minMax" && operator !== "weightedMinMax";
+
+// Лінгвістичні квантифікатори Ягера: Q(r) = 0 при r ≤ a, 1 при r ≥ b,
+// лінійно між ними
+type Quantifier = { a: number; b: number };
+const OWA_QUANTIFIERS: Partial<Record<AggregationOperator, Quantifier>> = {
+  owaMost: { a: 0.3, b: 0.8 },
+  owaAtLeastHalf: { a: 0, b: 0.5 },
+  owaAsManyAsPossible: { a: 0.5, b: 1 },
+};
+
+const formatWeight = (weight?: CriterionWeight) =>
+  weight
+    ? `${weight.value}${weight.importance ? ` (${weight.importance})` : ""}`
+    : "1";
+
+// Unnamed alternatives and criteria keep their "A1"/"C1" labels
+const getItemLabel = (items: MatrixItem[], index: number, prefix: string) =>
+  items[index]?.name.trim() || `${prefix}${index + 1}`;
+
+const resizeItems = (items: MatrixItem[], count: number): MatrixItem[] =>
+  Array.from(
+    { length: count },
+    (_, i) => items[i] ?? { name: "", description: "" }
+  );
+
+// Keeps entered cells when the matrix grows or shrinks
+const resizeTable = (
+  table: CellValue[][],
+  rows: number,
+  cols: number
+): CellValue[][] =>
+  Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => table[i]?.[j] ?? {})
+  );
+
+// A cell of some expert's matrix: expert k, alternative row, criteria col
+type CellAddress = { expert: number; row: number; col: number };
+
+// Cells that name terms missing from a scale; getCellLTSets would turn them
+// into empty term sets
+const findInvalidCells = (
+  experts: Expert[],
+  shortNames: string[]
+): CellAddress[] => {
+  const known = new Set(shortNames);
+  const isInvalid = (cell: CellValue) =>
+    cell.expression !== undefined
+      ? "error" in parseTermExpression(cell.expression, shortNames)
+      : [cell.from, cell.to].some((name) => !!name && !known.has(name));
+  return experts.flatMap((expert, k) =>
+    expert.tableData.flatMap((cells, i) =>
+      cells.flatMap((cell, j) =>
+        isInvalid(cell) ? [{ expert: k, row: i, col: j }] : []
+      )
+    )
+  );
+};
+
+// Structural edits of rows (alternatives) or columns (criterias)
+type MatrixEdit =
+  | { kind: "remove"; index: number }
+  | { kind: "duplicate"; index: number }
+  | { kind: "move"; index: number; to: number };
+
+const applyMatrixEdit = <T,>(items: T[], edit: MatrixEdit): T[] => {
+  const next = [...items];
+  if (edit.kind === "remove") next.splice(edit.index, 1);
+  else if (edit.kind === "duplicate")
+    next.splice(edit.index + 1, 0, structuredClone(items[edit.index]));
+  else next.splice(edit.to, 0, ...next.splice(edit.index, 1));
+  return next;
+};
+
+const MATRIX_EDIT_LABELS: Record<MatrixEdit["kind"], string> = {
+  remove: "Delete",
+  duplicate: "Duplicate",
+  move: "Move",
+};
+
+const getMatrixEditDelta = (edit: MatrixEdit) =>
+  edit.kind === "remove" ? -1 : edit.kind === "duplicate" ? 1 : 0;
+
+// A copy gets its own name, unnamed items keep the positional label
+const withDuplicateName = (items: MatrixItem[], edit: MatrixEdit) =>
+  edit.kind === "duplicate" && items[edit.index + 1]?.name.trim()
+    ? items.map((item, i) =>
+        i === edit.index + 1 ? { ...item, name: `${item.name} (copy)` } : item
+      )
+    : items;
+
+const getItemLabels = (items: MatrixItem[], count: number, prefix: string) =>
+  Array.from({ length: count }, (_, i) => getItemLabel(items, i, prefix));
+
+// Зважений мінімум/максимум Ягера: вага масштабується так, щоб найважчий
+// критерій мав вагу 1; критерій з вагою 0 не впливає на результат
+const weightedMin = (
+  values: number[],
+  weights: number[],
+  universe: Interval
+) => {
+  const top = Math.max(...weights) || 1;
+  return Math.min(
+    ...values.map((x, j) =>
+      Math.max(x, universe.r - (weights[j] / top) * (universe.r - universe.l))
+    )
+  );
+};
+
+const weightedMax = (
+  values: number[],
+  weights: number[],
+  universe: Interval
+) => {
+  const top = Math.max(...weights) || 1;
+  return Math.max(
+    ...values.map((x, j) =>
+      Math.min(x, universe.l + (weights[j] / top) * (universe.r - universe.l))
+    )
+  );
+};
+
+// Зважене середнє; якщо всі ваги нульові, критерії рівноцінні
+const weightedMean = (values: number[], weights: number[]) => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total === 0) return values.reduce((sum, x) => sum + x, 0) / values.length;
+  return values.reduce((sum, x, j) => sum + x * weights[j], 0) / total;
+};
+
+// Зсув для середнього геометричного як частка ширини універсуму
+const GEOMETRIC_SHIFT = 0.01;
+
+// Середнє геометричне; значення зсуваються трохи нижче початку універсуму,
+// щоб воно було визначене для від'ємних шкал, а оцінка на самому початку
+// не обнуляла весь добуток (log 0 = −∞). Результат лишається в [l, r]
+const geometricMean = (values: number[], universe: Interval) => {
+  const shift = GEOMETRIC_SHIFT * (universe.r - universe.l) || 1;
+  const logSum = values.reduce(
+    (sum, x) => sum + Math.log(Math.max(0, x - universe.l) + shift),
+    0
+  );
+  return universe.l - shift + Math.exp(logSum / values.length);
+};
+
+// Ваги OWA з квантифікатора: w_k = Q(k/n) − Q((k−1)/n)
+const getOwaWeights = (count: number, { a, b }: Quantifier) => {
+  const q = (r: number) => (r <= a ? 0 : r >= b ? 1 : (r - a) / (b - a));
+  return Array.from(
+    { length: count },
+    (_, k) => q((k + 1) / count) - q(k / count)
+  );
+};
+
+// OWA: ваги застосовуються до значень, впорядкованих за спаданням,
+// тож важливість критеріїв тут не враховується
+const owaMean = (values: number[], quantifier: Quantifier) => {
+  const weights = getOwaWeights(values.length, quantifier);
+  return [...values]
+    .sort((x, y) => y - x)
+    .reduce((sum, x, k) => sum + x * weights[k], 0);
+};
+
+// Межа агрегованого значення та критерій, що її дав; source = null, коли
+// межа зважена з усіх критеріїв
+type AggregatedBound = { value: number; source: number | null };
+
+const aggregateBound = (
+  values: number[],
+  kind: "lower" | "upper",
+  { operator, weights, universe }: AggregationSettings
+): AggregatedBound => {
+  if (operator === "weightedAverage")
+    return { value: weightedMean(values, weights), source: null };
+  // Усереднюючі оператори не розрізняють нижню та верхню межі: вони
+  // монотонні, тож трапеція після агрегації лишається впорядкованою
+  if (operator === "arithmeticMean")
+    return {
+      value: values.reduce((sum, x) => sum + x, 0) / values.length,
+      source: null,
+    };
+  if (operator === "geometricMean")
+    return { value: geometricMean(values, universe), source: null };
+  const quantifier = OWA_QUANTIFIERS[operator];
+  if (quantifier) return { value: owaMean(values, quantifier), source: null };
+  if (operator === "weightedMinMax") {
+    const value =
+      kind === "lower"
+        ? weightedMin(values, weights, universe)
+        : weightedMax(values, weights, universe);
+    // Критерій, чиє (обмежене вагою) значення досягає межі
+    const top = Math.max(...weights) || 1;
+    const source = values.findIndex((x, j) => {
+      const limit =
+        kind === "lower"
+          ? Math.max(
+              x,
+              universe.r - (weights[j] / top) * (universe.r - universe.l)
+            )
+          : Math.min(
+              x,
+              universe.l + (weights[j] / top) * (universe.r - universe.l)
+            );
+      return limit === value;
+    });
+    return { value, source: source === -1 ? null : source };
+  }
+  const value = kind === "lower" ? Math.min(...values) : Math.max(...values);
+  return { value, source: values.indexOf(value) };
+};
+
+// Крок 4: агрегація T_ij в комбінований трапеційний терм GS_i (Min/Min/Max/Max)
+const combineTrapezes = (
+  trapezes: Trapeze[],
+  settings: AggregationSettings
+): Trapeze => ({
+  a: aggregateBound(
+    trapezes.map((trap) => trap.a),
+    "lower",
+    settings
+  ).value,
+  b: aggregateBound(
+    trapezes.map((trap) => trap.b),
+    "lower",
+    settings
+  ).value,
+  c: aggregateBound(
+    trapezes.map((trap) => trap.c),
+    "upper",
+    settings
+  ).value,
+  d: aggregateBound(
+    trapezes.map((trap) => trap.d),
+    "upper",
+    settings
+  ).value,
+});
+
+// Project file written by "Export project" and read back by "Import project".
+// Cells may hold an "expression" since version 7.
+// Bump PROJECT_SCHEMA_VERSION when the layout changes and keep
+// parseProjectFile able to read every older version.
+const PROJECT_SCHEMA_VERSION = 10;
+const CALCULATION_METHODS: CalculationMethod[] = [
+  "generalized",
+  "pessimistic",
+  "optimistic",
+  "hurwicz",
+];
+
+type ProjectFile = {
+  schemaVersion: number;
+  numAlternatives: number;
+  numCriterias: number;
+  alpha: number;
+  calculationMethod: CalculationMethod;
+  terms: LinguisticTerm[];
+  // Since version 4, versions 1–3 had a single "tableData" matrix
+  experts: Expert[];
+  expertMergeMode: ExpertMergeMode;
+  // Since version 2
+  criteriaWeights: CriterionWeight[];
+  aggregationOperator: AggregationOperator;
+  // Since version 3
+  criteriaTypes: CriterionType[];
+  // Since version 6
+  alternatives: MatrixItem[];
+  criteria: MatrixItem[];
+  // Since version 8; null while terms are in the units they were entered in
+  normalization: ScaleNormalization | null;
+  // Since version 9
+  optimism: number;
+  // Since version 10
+  reference: ProbabilityReference;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+// JSON has no NaN, so unfinished term fields are exported as null
+const readTermValue = (value: unknown, path: string): number => {
+  if (value === null) return Number.NaN;
+  if (typeof value !== "number") throw new Error(`${path} must be a number`);
+  return value;
+};
+
+const parseNormalization = (raw: unknown): ScaleNormalization | null => {
+  if (raw === undefined || raw === null) return null;
+  const readRange = (value: unknown, field: string): Interval => {
+    if (
+      !isRecord(value) ||
+      typeof value.l !== "number" ||
+      typeof value.r !== "number" ||
+      !isValidRange({ l: value.l, r: value.r })
+    )
+      throw new Error(`normalization.${field} must be a range with l < r`);
+    return { l: value.l, r: value.r };
+  };
+  if (!isRecord(raw)) throw new Error("normalization must be an object");
+  return {
+    source: readRange(raw.source, "source"),
+    target: readRange(raw.target, "target"),
+  };
+};
+
+// Older files compare with [0, 1] as formula (3) does
+const parseReference = (
+  raw: unknown,
+  shortNames: Set<string>,
+  numAlternatives: number
+): ProbabilityReference => {
+  if (raw === undefined || raw === null) return DEFAULT_REFERENCE;
+  if (!isRecord(raw)) throw new Error("reference must be an object");
+  if (raw.kind === "fixed") {
+    const { interval } = raw;
+    if (
+      !isRecord(interval) ||
+      typeof interval.l !== "number" ||
+      typeof interval.r !== "number" ||
+      !(interval.l <= interval.r)
+    )
+      throw new Error("reference.interval must be a range with l ≤ r");
+    return { kind: "fixed", interval: { l: interval.l, r: interval.r } };
+  }
+  if (raw.kind === "term") {
+    if (typeof raw.shortName !== "string" || !shortNames.has(raw.shortName))
+      throw new Error(
+        `reference: unknown term short name "${String(raw.shortName)}"`
+      );
+    return { kind: "term", shortName: raw.shortName };
+  }
+  if (raw.kind === "alternative") {
+    if (
+      typeof raw.index !== "number" ||
+      !Number.isInteger(raw.index) ||
+      raw.index < 0 ||
+      raw.index >= numAlternatives
+    )
+      throw new Error(
+        `reference: target alternative must be one of ${numAlternatives} alternatives`
+      );
+    return { kind: "alternative", index: raw.index };
+  }
+  throw new Error(`Unknown reference kind "${String(raw.kind)}"`);
+};
+
+// Older files have no names: the list is empty and labels fall back to A1/C1
+const parseMatrixItems = (
+  rawItems: unknown,
+  count: number,
+  field: string
+): MatrixItem[] => {
+  const items = rawItems ?? [];
+  if (!Array.isArray(items) || (items.length > 0 && items.length !== count))
+    throw new Error(`${field} must list ${count} items`);
+  return items.map((item: unknown, i): MatrixItem => {
+    if (
+      !isRecord(item) ||
+      typeof item.name !== "string" ||
+      typeof (item.description ?? "") !== "string"
+    )
+      throw new Error(`${field}[${i}] must have a text name and description`);
+    return { name: item.name, description: String(item.description ?? "") };
+  });
+};
+
+// Used by project files and the term-scale library
+const parseTerms = (rawTerms: unknown): LinguisticTerm[] => {
+  if (!Array.isArray(rawTerms)) throw new Error("terms must be an array");
+  const terms = rawTerms.map((t: unknown, i): LinguisticTerm => {
+    const path = `terms[${i}]`;
+    if (!isRecord(t) || !isRecord(t.tri))
+      throw new Error(`${path} must have name, shortName and tri`);
+    if (typeof t.name !== "string" || typeof t.shortName !== "string")
+      throw new Error(`${path}: name and shortName must be strings`);
+    const term: LinguisticTerm = {
+      name: t.name,
+      shortName: t.shortName,
+      tri: {
+        left: readTermValue(t.tri.left, `${path}.tri.left`),
+        middle: readTermValue(t.tri.middle, `${path}.tri.middle`),
+        right: readTermValue(t.tri.right, `${path}.tri.right`),
+      },
+    };
+    // Shapes other than triangular appeared in version 5
+    if (t.shape === undefined) return term;
+    if (!TERM_SHAPES.includes(t.shape as TermShape))
+      throw new Error(`${path}: unknown shape "${String(t.shape)}"`);
+    term.shape = t.shape as TermShape;
+    if (isRecord(t.trap))
+      term.trap = {
+        a: readTermValue(t.trap.a, `${path}.trap.a`),
+        b: readTermValue(t.trap.b, `${path}.trap.b`),
+        c: readTermValue(t.trap.c, `${path}.trap.c`),
+        d: readTermValue(t.trap.d, `${path}.trap.d`),
+      };
+    if (isRecord(t.gauss))
+      term.gauss = {
+        mean: readTermValue(t.gauss.mean, `${path}.gauss.mean`),
+        sigma: readTermValue(t.gauss.sigma, `${path}.gauss.sigma`),
+      };
+    if (term.shape === "trapezoidal" && !term.trap)
+      throw new Error(`${path}: trapezoidal term needs trap`);
+    if (term.shape === "gaussian" && !term.gauss)
+      throw new Error(`${path}: gaussian term needs gauss`);
+    return term;
+  });
+  if (new Set(terms.map((t) => t.shortName)).size !== terms.length)
+    throw new Error("Term short names must be unique");
+  return terms;
+};
+
+const parseProjectFile = (raw: unknown): ProjectFile => {
+  if (!isRecord(raw)) throw new Error("Project file must contain an object");
+
+  const { schemaVersion } = raw;
+  if (
+    typeof schemaVersion !== "number" ||
+    !Number.isInteger(schemaVersion) ||
+    schemaVersion < 1
+  )
+    throw new Error("Missing or invalid schemaVersion");
+  if (schemaVersion > PROJECT_SCHEMA_VERSION)
+    throw new Error(
+      `Project schema version ${schemaVersion} is newer than supported version ${PROJECT_SCHEMA_VERSION}`
+    );
+
+  const { numAlternatives, numCriterias, alpha, calculationMethod } = raw;
+  if (!isPositiveInteger(numAlternatives))
+    throw new Error("numAlternatives must be a positive integer");
+  if (!isPositiveInteger(numCriterias))
+    throw new Error("numCriterias must be a positive integer");
+  if (typeof alpha !== "number" || alpha < 0 || alpha > 1)
+    throw new Error("alpha must be a number in [0, 1]");
+  if (!CALCULATION_METHODS.includes(calculationMethod as CalculationMethod))
+    throw new Error(
+      `Unknown calculation method "${String(calculationMethod)}"`
+    );
+
+  const terms = parseTerms(raw.terms);
+  const shortNames = new Set(terms.map((t) => t.shortName));
+
+  // An empty matrix is valid: the project was saved before "Finish"
+  const parseMatrix = (rawMatrix: unknown, owner: string): CellValue[][] => {
+    if (!Array.isArray(rawMatrix))
+      throw new Error(`${owner}: tableData must be an array`);
+    if (rawMatrix.length > 0 && rawMatrix.length !== numAlternatives)
+      throw new Error(
+        `${owner}: tableData has ${rawMatrix.length} rows, expected ${numAlternatives} alternatives`
+      );
+    return rawMatrix.map((row: unknown, i): CellValue[] => {
+      if (!Array.isArray(row) || row.length !== numCriterias)
+        throw new Error(
+          `${owner}: row A${i + 1} must have ${numCriterias} cells, one per criteria`
+        );
+      return row.map((cell: unknown, j): CellValue => {
+        const place = `${owner}: cell A${i + 1}/C${j + 1}`;
+        if (!isRecord(cell)) throw new Error(`${place} must be an object`);
+        const readBound = (value: unknown) => {
+          if (value === undefined || value === null || value === "")
+            return undefined;
+          if (typeof value !== "string")
+            throw new Error(`${place}: term short name must be a string`);
+          if (!shortNames.has(value))
+            throw new Error(`${place}: unknown term short name "${value}"`);
+          return value;
+        };
+        if (cell.expression !== undefined) {
+          if (typeof cell.expression !== "string")
+            throw new Error(`${place}: expression must be a string`);
+          const parsed = parseTermExpression(cell.expression, [...shortNames]);
+          if ("error" in parsed)
+            throw new Error(
+              `${place}: ${parsed.error} in "${cell.expression}"`
+            );
+          return { expression: cell.expression };
+        }
+        return { from: readBound(cell.from), to: readBound(cell.to) };
+      });
+    });
+  };
+
+  let experts: Expert[];
+  if (schemaVersion < 4) {
+    experts = [createExpert("Expert 1", parseMatrix(raw.tableData, "Project"))];
+  } else {
+    if (!Array.isArray(raw.experts) || raw.experts.length === 0)
+      throw new Error("experts must be a non-empty array");
+    experts = raw.experts.map((e: unknown, k): Expert => {
+      if (!isRecord(e) || typeof e.name !== "string")
+        throw new Error(`experts[${k}] must have a name`);
+      if (typeof e.weight !== "number" || e.weight < 0)
+        throw new Error(`${e.name}: weight must be a non-negative number`);
+      return {
+        name: e.name,
+        weight: e.weight,
+        tableData: parseMatrix(e.tableData, e.name),
+      };
+    });
+    const sizes = new Set(experts.map((e) => e.tableData.length));
+    if (sizes.size > 1)
+      throw new Error("All experts must have matrices of the same size");
+  }
+
+  const expertMergeMode = raw.expertMergeMode ?? "union";
+  if (
+    typeof expertMergeMode !== "string" ||
+    !(expertMergeMode in EXPERT_MERGE_LABELS)
+  )
+    throw new Error(`Unknown expert merge mode "${String(expertMergeMode)}"`);
+
+  // Version 1 files have no weights: every criterion counts the same
+  const rawWeights = raw.criteriaWeights ?? [];
+  if (!Array.isArray(rawWeights))
+    throw new Error("criteriaWeights must be an array");
+  if (rawWeights.length > 0 && rawWeights.length !== numCriterias)
+    throw new Error(
+      `criteriaWeights has ${rawWeights.length} items, expected ${numCriterias} criterias`
+    );
+  const criteriaWeights = rawWeights.map((w: unknown, j): CriterionWeight => {
+    if (!isRecord(w) || typeof w.value !== "number" || w.value < 0)
+      throw new Error(`Weight of C${j + 1} must be a non-negative number`);
+    if (w.importance === undefined) return { value: w.value };
+    const importance = IMPORTANCE_TERMS.find(
+      (t) => t.shortName === w.importance
+    );
+    if (!importance)
+      throw new Error(
+        `Weight of C${j + 1}: unknown importance term "${String(w.importance)}"`
+      );
+    return { value: importance.weight, importance: importance.shortName };
+  });
+
+  // Older files treat every criterion as benefit
+  const rawTypes = raw.criteriaTypes ?? [];
+  if (
+    !Array.isArray(rawTypes) ||
+    (rawTypes.length > 0 && rawTypes.length !== numCriterias)
+  )
+    throw new Error(`criteriaTypes must list ${numCriterias} criterias`);
+  const criteriaTypes = rawTypes.map((type: unknown, j): CriterionType => {
+    if (type !== "benefit" && type !== "cost")
+      throw new Error(`Type of C${j + 1} must be "benefit" or "cost"`);
+    return type;
+  });
+
+  const optimism = raw.optimism ?? 0.5;
+  if (typeof optimism !== "number" || optimism < 0 || optimism > 1)
+    throw new Error("optimism must be a number in [0, 1]");
+
+  const aggregationOperator = raw.aggregationOperator ?? "minMax";
+  if (
+    !AGGREGATION_OPERATORS.includes(aggregationOperator as AggregationOperator)
+  )
+    throw new Error(
+      `Unknown aggregation operator "${String(aggregationOperator)}"`
+    );
+
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    numAlternatives,
+    numCriterias,
+    alpha,
+    calculationMethod: isAveragingOperator(
+      aggregationOperator as AggregationOperator
+    )
+      ? "generalized"
+      : (calculationMethod as CalculationMethod),
+    terms,
+    experts,
+    expertMergeMode: expertMergeMode as ExpertMergeMode,
+    criteriaWeights,
+    aggregationOperator: aggregationOperator as AggregationOperator,
+    criteriaTypes,
+    alternatives: parseMatrixItems(
+      raw.alternatives,
+      numAlternatives,
+      "alternatives"
+    ),
+    criteria: parseMatrixItems(raw.criteria, numCriterias, "criteria"),
+    normalization: parseNormalization(raw.normalization),
+    optimism,
+    reference: parseReference(raw.reference, shortNames, numAlternatives),
+  };
+};
+
+// Autosaved sessions kept in localStorage, newest first
+const SESSIONS_STORAGE_KEY = "zotoi-lr1.sessions";
+const MAX_RECENT_SESSIONS = 10;
+// Session of this tab, so a reload keeps writing into the same entry
+const CURRENT_SESSION_STORAGE_KEY = "zotoi-lr1.currentSession";
+// Autosave waits for a pause in editing instead of running per keystroke
+const AUTOSAVE_DELAY_MS = 500;
+
+type SavedSession = {
+  id: string;
+  savedAt: number;
+  project: ProjectFile;
+  currentPage: "setup" | "evaluation";
+  isTransformedToIntervals: boolean;
+  isTransformedToTrapeze: boolean;
+  internalIntervalLTSets: string[][][];
+  internalTrapezeMatrix: Trapeze[][];
+  displayResults: DisplayResult[];
+  bestProbability: number | null;
+  isCompareMode?: boolean;
+  isTopsisEnabled?: boolean;
+};
+
+const createSessionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const loadSessions = (): SavedSession[] => {
+  try {
+    const parsed: unknown = JSON.parse(
+      localStorage.getItem(SESSIONS_STORAGE_KEY) ?? "[]"
+    );
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (s): s is SavedSession =>
+        isRecord(s) && typeof s.id === "string" && isRecord(s.project)
+    );
+  } catch {
+    return [];
+  }
+};
+
+const storeSessions = (sessions: SavedSession[]) => {
+  try {
+    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+  } catch (err) {
+    // Quota exceeded or storage disabled: keep working without autosave
+    console.warn("Cannot autosave session:", err);
+  }
+};
+
+const saveSession = (session: SavedSession) => {
+  storeSessions(
+    [session, ...loadSessions().filter((s) => s.id !== session.id)].slice(
+      0,
+      MAX_RECENT_SESSIONS
+    )
+  );
+};
+
+const deleteSession = (id: string) => {
+  storeSessions(loadSessions().filter((s) => s.id !== id));
+};
+
+const loadCurrentSessionId = () => {
+  try {
+    return sessionStorage.getItem(CURRENT_SESSION_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const storeCurrentSessionId = (id: string) => {
+  try {
+    sessionStorage.setItem(CURRENT_SESSION_STORAGE_KEY, id);
+  } catch {
+    // Storage disabled: a reload just starts a new entry
+  }
+};
+
+// Library of reusable term scales shared between projects
+const SCALE_LIBRARY_STORAGE_KEY = "zotoi-lr1.scales";
+const SCALE_LIBRARY_KIND = "term-scale-library";
+const SCALE_LIBRARY_SCHEMA_VERSION = 1;
+
+type SavedScale = {
+  id: string;
+  name: string;
+  description: string;
+  savedAt: number;
+  terms: LinguisticTerm[];
+};
+
+type ScaleLibraryFile = {
+  kind: typeof SCALE_LIBRARY_KIND;
+  schemaVersion: number;
+  scales: SavedScale[];
+};
+
+const parseSavedScale = (raw: unknown, index: number): SavedScale => {
+  if (!isRecord(raw)) throw new Error(`Scale ${index + 1} must be an object`);
+  if (typeof raw.name !== "string" || !raw.name.trim())
+    throw new Error(`Scale ${index + 1}: name must be a non-empty string`);
+  let terms: LinguisticTerm[];
+  try {
+    terms = parseTerms(raw.terms);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(`Scale "${raw.name}": ${reason}`);
+  }
+  if (terms.length === 0) throw new Error(`Scale "${raw.name}" has no terms`);
+  return {
+    id: typeof raw.id === "string" ? raw.id : createSessionId(),
+    name: raw.name.trim(),
+    description: typeof raw.description === "string" ? raw.description : "",
+    savedAt: typeof raw.savedAt === "number" ? raw.savedAt : Date.now(),
+    terms,
+  };
+};
+
+const parseScaleLibraryFile = (raw: unknown): SavedScale[] => {
+  if (!isRecord(raw)) throw new Error("Library file must be a JSON object");
+  if (raw.kind !== SCALE_LIBRARY_KIND)
+    throw new Error("This file is not a term-scale library");
+  if (
+    typeof raw.schemaVersion !== "number" ||
+    raw.schemaVersion > SCALE_LIBRARY_SCHEMA_VERSION
+  )
+    throw new Error(
+      `Unsupported library schema version ${String(raw.schemaVersion)}`
+    );
+  if (!Array.isArray(raw.scales)) throw new Error("scales must be an array");
+  return raw.scales.map(parseSavedScale);
+};
+
+const loadScaleLibrary = (): SavedScale[] => {
+  try {
+    const parsed: unknown = JSON.parse(
+      localStorage.getItem(SCALE_LIBRARY_STORAGE_KEY) ?? "[]"
+    );
+    if (!Array.isArray(parsed)) return [];
+    // Damaged entries are dropped instead of breaking the whole library
+    return parsed.flatMap((s, i) => {
+      try {
+        return [parseSavedScale(s, i)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+const storeScaleLibrary = (scales: SavedScale[]) => {
+  try {
+    localStorage.setItem(SCALE_LIBRARY_STORAGE_KEY, JSON.stringify(scales));
+  } catch (err) {
+    console.warn("Cannot store term-scale library:", err);
+  }
+};
+
+// Undo/redo history of the edited inputs; results are recalculated instead
+// of being kept in it
+const MAX_HISTORY_ENTRIES = 100;
+// Edits with the same label this close together form one step, so typing
+// a value does not add an entry per keystroke
+const HISTORY_MERGE_MS = 1000;
+
+type HistorySnapshot = {
+  terms: LinguisticTerm[];
+  experts: Expert[];
+  alpha: number;
+  numAlternatives: number;
+  numCriterias: number;
+  numLinguisticTerms: number;
+  alternativeItems: MatrixItem[];
+  criteriaItems: MatrixItem[];
+  criteriaWeights: CriterionWeight[];
+  criteriaTypes: CriterionType[];
+  normalization: ScaleNormalization | null;
+};
+
+type HistoryEntry = {
+  label: string;
+  timestamp: number;
+  snapshot: HistorySnapshot;
+};
+
+const isSameSnapshot = (
+  a: HistorySnapshot,
+  b: HistorySnapshot,
+  keys = Object.keys(a) as (keyof HistorySnapshot)[]
+) => keys.every((key) => a[key] === b[key]);
+
+// Parts of a snapshot the transformations and results are built from;
+// names and descriptions only label them
+const CALCULATION_SNAPSHOT_KEYS: (keyof HistorySnapshot)[] = [
+  "terms",
+  "experts",
+  "alpha",
+  "numAlternatives",
+  "numCriterias",
+  "criteriaWeights",
+  "criteriaTypes",
+  "normalization",
+];
+
+const METHOD_LABELS: Record<CalculationMethod, string> = {
+  generalized: "Generalized",
+  pessimistic: "Pessimistic",
+  optimistic: "Optimistic",
+  hurwicz: "Hurwicz",
+};
+
+// Критерій Гурвіца: I = λ·I_opt + (1 − λ)·I_pess покомпонентно
+const blendIntervals = (
+  pessimistic: Interval,
+  optimistic: Interval,
+  optimism: number
+): Interval => ({
+  l: optimism * optimistic.l + (1 - optimism) * pessimistic.l,
+  r: optimism * optimistic.r + (1 - optimism) * pessimistic.r,
+});
+
+// Агрегація рядка альтернативи обраним методом (Кроки 4–6).
+// Оператор агрегації замінює min/max на їх зважені варіанти
+const aggregateAlternative = (
+  method: CalculationMethod,
+  trapezesForAlternative: Trapeze[],
+  alpha: number,
+  settings: AggregationSettings
+): Interval => {
+  const lower = (values: number[]) =>
+    aggregateBound(values, "lower", settings).value;
+  const upper = (values: number[]) =>
+    aggregateBound(values, "upper", settings).value;
+
+  if (method === "generalized") {
+    // GENERALIZED (Узагальнений) [2]:
+    // Крок 4: Агрегація T_ij в комбінований трапеційний терм GS_i (Min/Min/Max/Max)
+    const T_i_combined = combineTrapezes(trapezesForAlternative, settings);
+
+    // Крок 5: Трансформація T_i_combined в інтервал I_i (α-cut)
+    return getIntervalFromTrapeze(T_i_combined, alpha);
+  }
+
+  // --- Обчислення інтервалів I_ij (α-переріз) ---
+  const intervalsForAlternative = trapezesForAlternative.map((trapeze) =>
+    getIntervalFromTrapeze(trapeze, alpha)
+  );
+
+  // PESSIMISTIC (Песимістичний) [11]: MIN операція на I_ij (Крок 6)
+  // I_i = [ min(l_j), min(r_j) ] (Формула 2)
+  const min_l = lower(intervalsForAlternative.map((inv) => inv.l));
+  const min_r = lower(intervalsForAlternative.map((inv) => inv.r));
+  if (method === "pessimistic") return { l: min_l, r: min_r };
+
+  // OPTIMISTIC (Оптимістичний) [12]: MAX операція на I_ij (Крок 6)
+  // I_i = [ max(l_j), max(r_j) ]
+  const max_l = upper(intervalsForAlternative.map((inv) => inv.l));
+  const max_r = upper(intervalsForAlternative.map((inv) => inv.r));
+  if (method === "optimistic") return { l: max_l, r: max_r };
+
+  // HURWICZ: зважування між песимістичним та оптимістичним інтервалами
+  return blendIntervals(
+    { l: min_l, r: min_r },
+    { l: max_l, r: max_r },
+    settings.optimism
+  );
+};
+
+// Еталонний інтервал R для методу; цільова альтернатива порівнюється
+// своїм підсумковим інтервалом, отриманим тим самим методом
+const getReferenceInterval = (
+  method: CalculationMethod,
+  trapezeMatrix: Trapeze[][],
+  alpha: number,
+  settings: AggregationSettings
+): Interval => {
+  const { reference } = settings;
+  if (reference.kind === "fixed") return reference.interval;
+  if (reference.kind === "term")
+    return getIntervalFromTrapeze(reference.trapeze, alpha);
+  const target = trapezeMatrix[reference.index];
+  return target?.length
+    ? aggregateAlternative(method, target, alpha, settings)
+    : { l: 0, r: 1 };
+};
+
+const getMethodInterval = (
+  res: DisplayResult,
+  method: CalculationMethod
+): Interval | undefined => {
+  if (method === "generalized") return res.genInterval;
+  if (method === "pessimistic") return res.pessInterval;
+  if (method === "hurwicz") return res.hurInterval;
+  return res.optInterval;
+};
+
+const getMethodProbability = (
+  res: DisplayResult,
+  method: CalculationMethod
+): number | undefined => {
+  if (method === "generalized") return res.genProbability;
+  if (method === "pessimistic") return res.pessProbability;
+  if (method === "hurwicz") return res.hurProbability;
+  return res.optProbability;
+};
+
+const withMethodResult = (
+  res: DisplayResult,
+  method: CalculationMethod,
+  interval: Interval,
+  probability: number
+): DisplayResult => {
+  if (method === "generalized")
+    return { ...res, genInterval: interval, genProbability: probability };
+  if (method === "pessimistic")
+    return { ...res, pessInterval: interval, pessProbability: probability };
+  if (method === "hurwicz")
+    return { ...res, hurInterval: interval, hurProbability: probability };
+  return { ...res, optInterval: interval, optProbability: probability };
+};
+
+// Ступінь можливості p(a ≥ b) для інтервалів:
+// p = max(1 - max((b.r - a.l) / (len(a) + len(b)), 0), 0).
+// Формула (3) є частковим випадком для b = [0, 1]
+const possibilityDegree = (a: Interval, b: Interval): number => {
+  const length = a.r - a.l + (b.r - b.l);
+  if (length === 0) {
+    if (a.l === b.l) return 0.5;
+    return a.l > b.l ? 1 : 0;
+  }
+  return Math.max(1 - Math.max((b.r - a.l) / length, 0), 0);
+};
+
+// Fuzzy TOPSIS: ідеальні рішення, відстані до них та коефіцієнт близькості
+type TopsisAlternative = {
+  distancePositive: number;
+  distanceNegative: number;
+  closeness: number;
+};
+type TopsisResult = {
+  // FPIS A⁺ та FNIS A⁻ по кожному критерію
+  positive: Trapeze[];
+  negative: Trapeze[];
+  alternatives: TopsisAlternative[];
+};
+
+const mapTrapeze = (t: Trapeze, f: (x: number) => number): Trapeze => ({
+  a: f(t.a),
+  b: f(t.b),
+  c: f(t.c),
+  d: f(t.d),
+});
+
+// Вершинна відстань між трапеціями: d = sqrt((Σ (m_k − n_k)²) / 4)
+const trapezeDistance = (m: Trapeze, n: Trapeze) =>
+  Math.sqrt(
+    ((m.a - n.a) ** 2 +
+      (m.b - n.b) ** 2 +
+      (m.c - n.c) ** 2 +
+      (m.d - n.d) ** 2) /
+      4
+  );
+
+// Матриця вже містить дзеркальні критерії витрат, тож усі критерії — вигоди.
+// Нормалізація r_ij = (x − u.l) / (max_i d_ij − u.l) зводить терми до [0, 1],
+// ваги масштабуються так, щоб найважчий критерій мав вагу 1
+const fuzzyTopsis = (
+  matrix: Trapeze[][],
+  weights: number[],
+  universe: Interval
+): TopsisResult => {
+  const columns = matrix[0]?.length ?? 0;
+  const top = Math.max(...weights) || 1;
+  const weighted = matrix.map((row) =>
+    row.map((trapeze, j) => {
+      const span = Math.max(...matrix.map((r) => r[j].d)) - universe.l || 1;
+      const weight = (weights[j] ?? 1) / top;
+      return mapTrapeze(trapeze, (x) => ((x - universe.l) / span) * weight);
+    })
+  );
+
+  const ideal = (pick: (...values: number[]) => number) =>
+    Array.from({ length: columns }, (_, j) => {
+      const column = weighted.map((row) => row[j]);
+      return {
+        a: pick(...column.map((t) => t.a)),
+        b: pick(...column.map((t) => t.b)),
+        c: pick(...column.map((t) => t.c)),
+        d: pick(...column.map((t) => t.d)),
+      };
+    });
+  const positive = ideal(Math.max);
+  const negative = ideal(Math.min);
+
+  const alternatives = weighted.map((row) => {
+    const distancePositive = row.reduce(
+      (sum, v, j) => sum + trapezeDistance(v, positive[j]),
+      0
+    );
+    const distanceNegative = row.reduce(
+      (sum, v, j) => sum + trapezeDistance(v, negative[j]),
+      0
+    );
+    const total = distancePositive + distanceNegative;
+    // Усі альтернативи однакові: жодна не ближча до ідеалу
+    const closeness = total === 0 ? 0.5 : distanceNegative / total;
+    return { distancePositive, distanceNegative, closeness };
+  });
+
+  return { positive, negative, alternatives };
+};
+
+const POSSIBILITY_EPSILON = 1e-9;
+
+// Competition ranking ("1, 1, 3"): higher probability ranks first, equal
+// probabilities share a rank
+const rankByProbability = (
+  probabilities: (number | undefined)[]
+): (number | undefined)[] =>
+  probabilities.map((p) =>
+    p === undefined
+      ? undefined
+      : 1 + probabilities.filter((q) => q !== undefined && q > p).length
+  );
+
+// Line colors for per-alternative charts
+const SERIES_COLORS = [
+  "rgb(37,99,235)",
+  "rgb(239,68,68)",
+  "rgb(22,163,74)",
+  "rgb(234,179,8)",
+  "rgb(147,51,234)",
+  "rgb(14,165,233)",
+  "rgb(249,115,22)",
+  "rgb(100,116,139)",
+];
+
+// Графік функцій належності термів; поточний терм виділяється червоним
+const getMembershipChartData = (
+  terms: LinguisticTerm[],
+  currentTermIndex: number
+) => {
+  const completedTerms = terms.filter(isTermComplete);
+  const minLeft = completedTerms.length
+    ? Math.min(...completedTerms.map((t) => getTermTrapeze(t).a))
+    : 0;
+  const maxRight = completedTerms.length
+    ? Math.max(...completedTerms.map((t) => getTermTrapeze(t).d))
+    : 1;
+  const span = Math.max(1e-6, maxRight - minLeft);
+  const steps = 300;
+  const xs = Array.from(
+    { length: steps + 1 },
+    (_, i) => minLeft + (i * span) / steps
+  );
+  const toPoints = (term: LinguisticTerm) =>
+    xs.map((x) => ({ x, y: getMembership(term, x) }));
 
-type TriangularNumber = { left: number; middle: number; right: number };
-type LinguisticTerm = {
-  name: string;
-  shortName: string;
-  tri: TriangularNumber;
+  const termDatasets: ChartDataset<"line", { x: number; y: number }[]>[] =
+    completedTerms.map((t) => {
+      const isCurrent = terms.indexOf(t) === currentTermIndex;
+      const stroke = isCurrent ? "rgb(239,68,68)" : "rgb(37,99,235)";
+      const fill = isCurrent ? "rgba(239,68,68,0.2)" : "rgba(37,99,235,0.15)";
+      return {
+        label: `${t.shortName} (${t.name})`,
+        data: toPoints(t),
+        parsing: false,
+        fill: true,
+        borderColor: stroke,
+        backgroundColor: fill,
+        tension: 0,
+        pointRadius: 0,
+      };
+    });
+
+  const yAxisDataset: ChartDataset<"line", { x: number; y: number }[]> = {
+    label: "y-axis",
+    data: [
+      { x: 0, y: 0 },
+      { x: 0, y: 1 },
+    ],
+    parsing: false,
+    fill: false,
+    borderColor: "rgba(0,0,0,0.5)",
+    borderWidth: 1,
+    pointRadius: 0,
+    borderDash: [4, 4],
+  };
+
+  return {
+    datasets: [...termDatasets, yAxisDataset],
+  };
 };
-type CellValue = { from?: string; to?: string };
-type CalculationMethod = "generalized" | "pessimistic" | "optimistic";
-type Trapeze = { a: number; b: number; c: number; d: number }; // Трапеційний терм (a, b, c, d) [4]
-type Interval = { l: number; r: number }; // Інтервал α-перерізу [l, r] [5]
 
-// New type to hold calculation results for display in the main table
-type DisplayResult = {
-  // generalized
-  genInterval?: Interval;
-  genProbability?: number;
-  // pessimistic
-  pessInterval?: Interval;
-  pessProbability?: number;
-  // optimistic
-  optInterval?: Interval;
-  optProbability?: number;
+const getMembershipChartOptions = (terms: LinguisticTerm[]) => {
+  const completedTerms = terms.filter(isTermComplete);
+  const minLeft = completedTerms.length
+    ? Math.min(...completedTerms.map((t) => getTermTrapeze(t).a))
+    : 0;
+  const maxRight = completedTerms.length
+    ? Math.max(...completedTerms.map((t) => getTermTrapeze(t).d))
+    : 1;
+
+  return {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { intersect: false, mode: "index" as const },
+    plugins: { legend: { display: true } },
+    scales: {
+      x: {
+        type: "linear" as const,
+        display: true,
+        min: minLeft,
+        max: maxRight,
+      },
+      y: { min: 0, max: 1, ticks: { stepSize: 0.2 } },
+    },
+  };
 };
 
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const toCsvRow = (cells: (string | number)[]) =>
+  cells
+    .map((cell) => {
+      const text = String(cell);
+      return /[",;\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",");
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatTrapeze = ({ a, b, c, d }: Trapeze) =>
+  `${a.toFixed(4)}; ${b.toFixed(4)}; ${c.toFixed(4)}; ${d.toFixed(4)}`;
+
 function App() {
   const [numAlternatives, setNumAlternatives] = useState<number>(3);
   const [numCriterias, setNumCriterias] = useState<number>(3);
@@ -82,13 +2160,29 @@ function App() {
   const [currentPage, setCurrentPage] = useState<"setup" | "evaluation">(
     "setup"
   );
-  const [tableData, setTableData] = useState<CellValue[][]>([]);
+  const [experts, setExperts] = useState<Expert[]>(() => [
+    createExpert("Expert 1", []),
+  ]);
+  const [currentExpertIndex, setCurrentExpertIndex] = useState<number>(0);
+  // Raw weight text of the current expert, applied on blur
+  const [expertWeightText, setExpertWeightText] = useState<string | null>(null);
+  const [expertMergeMode, setExpertMergeMode] =
+    useState<ExpertMergeMode>("union");
+  // The table shows and edits the matrix of the selected expert
+  const tableData = experts[currentExpertIndex]?.tableData ?? [];
+  const setTableData = (next: CellValue[][]) =>
+    setExperts((prev) =>
+      prev.map((expert, k) =>
+        k === currentExpertIndex ? { ...expert, tableData: next } : expert
+      )
+    );
   const [editingCell, setEditingCell] = useState<{
     row: number;
     col: number;
   } | null>(null);
-  const [modalFrom, setModalFrom] = useState<string>("");
-  const [modalTo, setModalTo] = useState<string>("");
+  const [modalExpression, setModalExpression] = useState<string>("");
+  // From/to picker of the cell dialog, writes the estimate in its wording
+  const [modalPick, setModalPick] = useState<CellValue>({});
   const [isTransformedToIntervals, setIsTransformedToIntervals] =
     useState(false);
   const [isTransformedToTrapeze, setIsTransformedToTrapeze] = useState(false);
@@ -102,11 +2196,76 @@ function App() {
     Trapeze[][]
   >([]); // Крок 3
 
+  const [criteriaWeights, setCriteriaWeights] = useState<CriterionWeight[]>([]);
+  const [criteriaTypes, setCriteriaTypes] = useState<CriterionType[]>([]);
+  const [alternativeItems, setAlternativeItems] = useState<MatrixItem[]>([]);
+  const [criteriaItems, setCriteriaItems] = useState<MatrixItem[]>([]);
+  const [editingAlternative, setEditingAlternative] = useState<number | null>(
+    null
+  );
+  const [modalItem, setModalItem] = useState<MatrixItem>({
+    name: "",
+    description: "",
+  });
+  const [isItemsDialogOpen, setIsItemsDialogOpen] = useState<boolean>(false);
+  const [normalization, setNormalization] = useState<ScaleNormalization | null>(
+    null
+  );
+  // Alternative whose result is explained step by step
+  const [explainedAlternative, setExplainedAlternative] = useState<
+    number | null
+  >(null);
+  const [explainMethod, setExplainMethod] =
+    useState<CalculationMethod>("generalized");
+  const [aggregationOperator, setAggregationOperator] =
+    useState<AggregationOperator>("minMax");
+  // Hurwicz optimism coefficient λ: 0 is pessimistic, 1 is optimistic
+  const [optimism, setOptimism] = useState<number>(0.5);
+  // Raw λ text while the field is edited, clamped and applied on blur
+  const [optimismText, setOptimismText] = useState<string | null>(null);
+  const [probabilityReference, setProbabilityReference] =
+    useState<ProbabilityReference>(DEFAULT_REFERENCE);
+  const [editingCriterion, setEditingCriterion] = useState<number | null>(null);
+  const [modalWeight, setModalWeight] = useState<CriterionWeight>({
+    value: 1,
+  });
+  // Raw weight text while the field is edited, applied on blur
+  const [modalWeightText, setModalWeightText] = useState<string | null>(null);
+  const [modalCriterionType, setModalCriterionType] =
+    useState<CriterionType>("benefit");
+
   // New state for integrated results
   const [displayResults, setDisplayResults] = useState<DisplayResult[]>([]);
+  const [isSensitivityOpen, setIsSensitivityOpen] = useState<boolean>(false);
+  const [sensitivityStep, setSensitivityStep] = useState<number>(0.05);
+  // Raw step text while the field is edited, clamped and applied on blur
+  const [sensitivityStepText, setSensitivityStepText] = useState<string | null>(
+    null
+  );
+  // Calculate all methods at once and show them side by side
+  const [isCompareMode, setIsCompareMode] = useState<boolean>(false);
+  // Fuzzy TOPSIS ranking shown next to the probability ranking
+  const [isTopsisEnabled, setIsTopsisEnabled] = useState<boolean>(false);
   const [bestProbability, setBestProbability] = useState<number | null>(null);
 
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+  const matrixFileInputRef = useRef<HTMLInputElement>(null);
+  const [isMatrixImportOpen, setIsMatrixImportOpen] = useState<boolean>(false);
+  const [matrixImportText, setMatrixImportText] = useState<string>("");
+  const [projectError, setProjectError] = useState<string | null>(null);
+
+  const [sessionId, setSessionId] = useState<string>(
+    () => loadCurrentSessionId() ?? createSessionId()
+  );
+  const [recentSessions, setRecentSessions] =
+    useState<SavedSession[]>(loadSessions);
+  // Offer to resume on startup when there is anything to resume
+  const [isSessionsDialogOpen, setIsSessionsDialogOpen] = useState<boolean>(
+    () => recentSessions.length > 0
+  );
+
   const resetAll = () => {
+    labelHistory("Reset all");
     setNumAlternatives(3);
     setNumCriterias(3);
     setNumLinguisticTerms(5);
@@ -114,13 +2273,28 @@ function App() {
     setCurrentTermIndex(0);
     setTerms([]);
     setCurrentPage("setup");
-    setTableData([]);
+    setExperts([createExpert("Expert 1", [])]);
+    setCurrentExpertIndex(0);
+    setExpertMergeMode("union");
+    setCriteriaWeights([]);
+    setCriteriaTypes([]);
+    setAlternativeItems([]);
+    setCriteriaItems([]);
+    setNormalization(null);
+    setAggregationOperator("minMax");
+    setOptimism(0.5);
+    setProbabilityReference(DEFAULT_REFERENCE);
     setIsTransformedToIntervals(false);
     setIsTransformedToTrapeze(false);
     setInternalIntervalLTSets([]);
     setInternalTrapezeMatrix([]);
     setDisplayResults([]);
     setBestProbability(null);
+    setIsCompareMode(false);
+    setIsTopsisEnabled(false);
+    // Drop the autosave explicitly, otherwise it is offered again on reload
+    deleteSession(sessionId);
+    setSessionId(createSessionId());
   };
 
   const handleCalculationMethodChange = (
@@ -132,41 +2306,552 @@ function App() {
     setBestProbability(null);
   };
 
-  const orderTriangular = (t: TriangularNumber): TriangularNumber => {
-    const left = Math.min(t.left, t.middle, t.right);
-    const right = Math.max(t.left, t.middle, t.right);
-    const sum = t.left + t.middle + t.right;
-    const middle = Math.max(left, Math.min(right, sum - left - right));
-    return { left, middle, right };
+  // The setup page changes only the counts, handleFinish fits the matrix and
+  // the per-row/column lists later. Fit them here too, so that a file saved
+  // in between loads back; empty lists stay empty as parseProjectFile allows
+  const currentProject = useMemo<ProjectFile>(() => {
+    const fit = <T,>(list: T[], count: number, fill: T) =>
+      list.length > 0
+        ? Array.from({ length: count }, (_, i) => list[i] ?? fill)
+        : list;
+    return {
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      numAlternatives,
+      numCriterias,
+      alpha,
+      calculationMethod,
+      terms,
+      experts: experts.map((expert) =>
+        expert.tableData.length > 0
+          ? {
+              ...expert,
+              tableData: resizeTable(
+                expert.tableData,
+                numAlternatives,
+                numCriterias
+              ),
+            }
+          : expert
+      ),
+      expertMergeMode,
+      criteriaWeights: fit(criteriaWeights, numCriterias, { value: 1 }),
+      aggregationOperator,
+      criteriaTypes: fit<CriterionType>(criteriaTypes, numCriterias, "benefit"),
+      alternatives: fit(alternativeItems, numAlternatives, {
+        name: "",
+        description: "",
+      }),
+      criteria: fit(criteriaItems, numCriterias, { name: "", description: "" }),
+      normalization,
+      optimism,
+      // A deleted term or alternative is not written, the file would not load
+      reference: resolveReference(probabilityReference, terms, numAlternatives)
+        ? probabilityReference
+        : DEFAULT_REFERENCE,
+    };
+  }, [
+    numAlternatives,
+    numCriterias,
+    alpha,
+    calculationMethod,
+    terms,
+    experts,
+    expertMergeMode,
+    criteriaWeights,
+    aggregationOperator,
+    criteriaTypes,
+    alternativeItems,
+    criteriaItems,
+    normalization,
+    optimism,
+    probabilityReference,
+  ]);
+
+  const handleExportProject = () => {
+    downloadFile(
+      JSON.stringify(currentProject, null, 2),
+      "decision-project.json",
+      "application/json"
+    );
+  };
+
+  const handleImportProject = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    e.target.value = "";
+    if (!file) return;
+
+    let project: ProjectFile;
+    try {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a valid JSON file`);
+      }
+      project = parseProjectFile(raw);
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    applyProject(project);
+  };
+
+  const applyProject = (project: ProjectFile) => {
+    labelHistory("Load project");
+    setNumAlternatives(project.numAlternatives);
+    setNumCriterias(project.numCriterias);
+    setNumLinguisticTerms(Math.max(1, project.terms.length));
+    setAlpha(project.alpha);
+    setCalculationMethod(project.calculationMethod);
+    setTerms(project.terms);
+    setCurrentTermIndex(0);
+    setExperts(project.experts);
+    setCurrentExpertIndex(0);
+    setExpertMergeMode(project.expertMergeMode);
+    setCriteriaWeights(project.criteriaWeights);
+    setAggregationOperator(project.aggregationOperator);
+    setCriteriaTypes(project.criteriaTypes);
+    setAlternativeItems(project.alternatives);
+    setCriteriaItems(project.criteria);
+    setNormalization(project.normalization);
+    setOptimism(project.optimism);
+    setProbabilityReference(project.reference);
+    setIsTransformedToIntervals(false);
+    setIsTransformedToTrapeze(false);
+    setInternalIntervalLTSets([]);
+    setInternalTrapezeMatrix([]);
+    setDisplayResults([]);
+    setBestProbability(null);
+    setCurrentPage("setup");
+  };
+
+  useEffect(() => {
+    storeCurrentSessionId(sessionId);
+  }, [sessionId]);
+
+  const hasSessionContent =
+    currentProject.terms.length > 0 ||
+    currentProject.experts[0].tableData.length > 0;
+
+  // Autosave everything the setup and evaluation pages need to be restored
+  useEffect(() => {
+    if (!hasSessionContent) return;
+    const save = () =>
+      saveSession({
+        id: sessionId,
+        savedAt: Date.now(),
+        project: currentProject,
+        currentPage,
+        isTransformedToIntervals,
+        isTransformedToTrapeze,
+        internalIntervalLTSets,
+        internalTrapezeMatrix,
+        displayResults,
+        bestProbability,
+        isCompareMode,
+        isTopsisEnabled,
+      });
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    // Closing or reloading the tab must not lose the last edits
+    window.addEventListener("pagehide", save);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("pagehide", save);
+    };
+  }, [
+    hasSessionContent,
+    sessionId,
+    currentProject,
+    currentPage,
+    isTransformedToIntervals,
+    isTransformedToTrapeze,
+    internalIntervalLTSets,
+    internalTrapezeMatrix,
+    displayResults,
+    bestProbability,
+    isCompareMode,
+    isTopsisEnabled,
+  ]);
+
+  const describeSession = (session: SavedSession) => {
+    const { project } = session;
+    const page =
+      session.currentPage === "evaluation" ? "evaluation" : "term setup";
+    return `${project.terms.length} terms, ${project.numAlternatives} alternatives × ${project.numCriterias} criterias, ${page}`;
+  };
+
+  const handleOpenSessions = () => {
+    setRecentSessions(loadSessions());
+    setIsSessionsDialogOpen(true);
+  };
+
+  const handleDeleteSession = (id: string) => {
+    deleteSession(id);
+    setRecentSessions(loadSessions());
+    // Keep autosaving, but under a new entry
+    if (id === sessionId) setSessionId(createSessionId());
+  };
+
+  // Starting over after a reload must not overwrite the entry of this tab
+  const handleStartNewSession = () => {
+    if (!hasSessionContent && recentSessions.some((s) => s.id === sessionId))
+      setSessionId(createSessionId());
+    setIsSessionsDialogOpen(false);
+  };
+
+  const handleResumeSession = (session: SavedSession) => {
+    let project: ProjectFile;
+    try {
+      project = parseProjectFile(session.project);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setProjectError(`Saved session is damaged: ${reason}`);
+      return;
+    }
+
+    applyProject(project);
+    setIsTransformedToIntervals(!!session.isTransformedToIntervals);
+    setIsTransformedToTrapeze(!!session.isTransformedToTrapeze);
+    setInternalIntervalLTSets(session.internalIntervalLTSets ?? []);
+    setInternalTrapezeMatrix(session.internalTrapezeMatrix ?? []);
+    setDisplayResults(session.displayResults ?? []);
+    setBestProbability(session.bestProbability ?? null);
+    setIsCompareMode(
+      !!session.isCompareMode &&
+        !isAveragingOperator(project.aggregationOperator)
+    );
+    setIsTopsisEnabled(!!session.isTopsisEnabled);
+    setCurrentPage(
+      session.currentPage === "evaluation" &&
+        project.experts[0].tableData.length > 0
+        ? "evaluation"
+        : "setup"
+    );
+    // Continue writing into the resumed entry instead of a new one
+    setSessionId(session.id);
+    setIsSessionsDialogOpen(false);
+  };
+
+  const historySnapshot = useMemo<HistorySnapshot>(
+    () => ({
+      terms,
+      experts,
+      alpha,
+      numAlternatives,
+      numCriterias,
+      numLinguisticTerms,
+      alternativeItems,
+      criteriaItems,
+      criteriaWeights,
+      criteriaTypes,
+      normalization,
+    }),
+    [
+      terms,
+      experts,
+      alpha,
+      numAlternatives,
+      numCriterias,
+      numLinguisticTerms,
+      alternativeItems,
+      criteriaItems,
+      criteriaWeights,
+      criteriaTypes,
+      normalization,
+    ]
+  );
+  const [history, setHistory] = useState<{
+    entries: HistoryEntry[];
+    index: number;
+  }>({ entries: [], index: -1 });
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  // Label for the next recorded change, set by the handler that makes it
+  const historyLabelRef = useRef<string | null>("Start");
+  // Set while undo/redo applies a snapshot, so it is not recorded again
+  const restoredSnapshotRef = useRef<HistorySnapshot | null>(null);
+
+  const labelHistory = (label: string) => {
+    historyLabelRef.current = label;
   };
 
+  // Every change of the inputs becomes a history entry
+  useEffect(() => {
+    const restored = restoredSnapshotRef.current;
+    restoredSnapshotRef.current = null;
+    if (restored && isSameSnapshot(restored, historySnapshot)) return;
+
+    const label = historyLabelRef.current ?? "Edit";
+    historyLabelRef.current = null;
+    const timestamp = Date.now();
+    setHistory((prev) => {
+      const { entries, index } = prev;
+      // Effects run twice in strict mode: the same state is one entry
+      if (entries[index]?.snapshot === historySnapshot) return prev;
+      const kept = entries.slice(0, index + 1);
+      const last = kept[kept.length - 1];
+      if (
+        kept.length > 1 &&
+        last.label === label &&
+        timestamp - last.timestamp < HISTORY_MERGE_MS
+      ) {
+        kept[kept.length - 1] = { label, timestamp, snapshot: historySnapshot };
+        return { entries: kept, index };
+      }
+      const next = [
+        ...kept,
+        { label, timestamp, snapshot: historySnapshot },
+      ].slice(-MAX_HISTORY_ENTRIES);
+      return { entries: next, index: next.length - 1 };
+    });
+  }, [historySnapshot]);
+
+  // Any change of the expert panel invalidates the group matrix
+  const resetTransformations = useCallback(() => {
+    setIsTransformedToIntervals(false);
+    setIsTransformedToTrapeze(false);
+    setInternalIntervalLTSets([]);
+    setInternalTrapezeMatrix([]);
+    setDisplayResults([]);
+    setBestProbability(null);
+  }, []);
+
+  const restoreHistory = useCallback(
+    (index: number) => {
+      const entry = history.entries[index];
+      if (!entry) return;
+      const { snapshot } = entry;
+      restoredSnapshotRef.current = snapshot;
+      setTerms(snapshot.terms);
+      setExperts(snapshot.experts);
+      setAlpha(snapshot.alpha);
+      setNumAlternatives(snapshot.numAlternatives);
+      setNumCriterias(snapshot.numCriterias);
+      setNumLinguisticTerms(snapshot.numLinguisticTerms);
+      setAlternativeItems(snapshot.alternativeItems);
+      setCriteriaItems(snapshot.criteriaItems);
+      setCriteriaWeights(snapshot.criteriaWeights);
+      setCriteriaTypes(snapshot.criteriaTypes);
+      setNormalization(snapshot.normalization);
+      setCurrentTermIndex((i) => Math.min(i, snapshot.terms.length));
+      setCurrentExpertIndex((k) => Math.min(k, snapshot.experts.length - 1));
+      setHistory((prev) => ({ ...prev, index }));
+      // A label meant for an edit that never happened must not name this step
+      historyLabelRef.current = null;
+      if (!isSameSnapshot(snapshot, historySnapshot, CALCULATION_SNAPSHOT_KEYS))
+        resetTransformations();
+      // The evaluation page needs a matrix to show
+      if (snapshot.experts[0].tableData.length === 0) setCurrentPage("setup");
+    },
+    [history.entries, historySnapshot, resetTransformations]
+  );
+
+  const canUndo = history.index > 0;
+  const canRedo = history.index < history.entries.length - 1;
+  const handleUndo = useCallback(() => {
+    if (canUndo) restoreHistory(history.index - 1);
+  }, [canUndo, history.index, restoreHistory]);
+  const handleRedo = useCallback(() => {
+    if (canRedo) restoreHistory(history.index + 1);
+  }, [canRedo, history.index, restoreHistory]);
+
+  // Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable='true']")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) handleUndo();
+      else if (key === "y" || (key === "z" && e.shiftKey)) handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const historyButtons = (
+    <Stack direction="row" spacing={1}>
+      <IconButton
+        aria-label="undo"
+        title="Undo (Ctrl+Z)"
+        disabled={!canUndo}
+        onClick={handleUndo}
+      >
+        <UndoIcon />
+      </IconButton>
+      <IconButton
+        aria-label="redo"
+        title="Redo (Ctrl+Shift+Z)"
+        disabled={!canRedo}
+        onClick={handleRedo}
+      >
+        <RedoIcon />
+      </IconButton>
+      <Button variant="outlined" onClick={() => setIsHistoryOpen(true)}>
+        History
+      </Button>
+    </Stack>
+  );
+
+  const projectFileControls = (
+    <>
+      <input
+        ref={projectFileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={handleImportProject}
+      />
+      <Dialog open={!!projectError} onClose={() => setProjectError(null)}>
+        <DialogTitle>Cannot load file</DialogTitle>
+        <DialogContent>
+          <Typography>{projectError}</Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setProjectError(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+      <Dialog
+        open={isSessionsDialogOpen}
+        onClose={handleStartNewSession}
+        fullWidth
+      >
+        <DialogTitle>Resume previous session</DialogTitle>
+        <DialogContent>
+          {recentSessions.length === 0 ? (
+            <Typography color="text.secondary">No saved sessions</Typography>
+          ) : (
+            <Stack spacing={1} divider={<Divider />}>
+              {recentSessions.map((session) => (
+                <Stack
+                  key={session.id}
+                  direction="row"
+                  spacing={1}
+                  alignItems="center"
+                >
+                  <Box sx={{ flex: 1 }}>
+                    <Typography>
+                      {new Date(session.savedAt).toLocaleString()}
+                      {session.id === sessionId ? " (current)" : ""}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {describeSession(session)}
+                    </Typography>
+                  </Box>
+                  <Button
+                    variant="contained"
+                    size="small"
+                    disabled={session.id === sessionId && hasSessionContent}
+                    onClick={() => handleResumeSession(session)}
+                  >
+                    Resume
+                  </Button>
+                  <IconButton
+                    aria-label="delete session"
+                    onClick={() => handleDeleteSession(session.id)}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </Stack>
+              ))}
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleStartNewSession}>Start new</Button>
+        </DialogActions>
+      </Dialog>
+      <Dialog
+        open={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        fullWidth
+      >
+        <DialogTitle>History</DialogTitle>
+        <DialogContent>
+          <Stack spacing={1} divider={<Divider />}>
+            {history.entries
+              .map((entry, index) => ({ entry, index }))
+              .reverse()
+              .map(({ entry, index }) => (
+                <Stack
+                  key={`${index}-${entry.timestamp}`}
+                  direction="row"
+                  spacing={1}
+                  alignItems="center"
+                  sx={{ opacity: index > history.index ? 0.5 : 1 }}
+                >
+                  <Typography
+                    variant="caption"
+                    color="text.secondary"
+                    sx={{ minWidth: 70 }}
+                  >
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                  </Typography>
+                  <Typography sx={{ flex: 1 }}>
+                    {entry.label}
+                    {index === history.index ? " (current)" : ""}
+                  </Typography>
+                  <Button
+                    size="small"
+                    disabled={index === history.index}
+                    onClick={() => restoreHistory(index)}
+                  >
+                    Jump here
+                  </Button>
+                </Stack>
+              ))}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIsHistoryOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+
+  const projectFileButtons = (
+    <Stack direction="row" spacing={1}>
+      <Button variant="outlined" onClick={handleExportProject}>
+        Export project
+      </Button>
+      <Button
+        variant="outlined"
+        onClick={() => projectFileInputRef.current?.click()}
+      >
+        Import project
+      </Button>
+      <Button variant="outlined" onClick={handleOpenSessions}>
+        Recent sessions
+      </Button>
+    </Stack>
+  );
+
   const getTrapezeFromLTSets = (
     ltShortNames: string[],
     allTerms: LinguisticTerm[]
   ): Trapeze | null => {
     if (ltShortNames.length === 0) return null;
 
-    const triangularTerms = ltShortNames
-      .map((shortName) => allTerms.find((t) => t.shortName === shortName)?.tri)
-      .filter((tri): tri is TriangularNumber => !!tri);
+    const selectedTerms = ltShortNames
+      .map((shortName) => allTerms.find((t) => t.shortName === shortName))
+      .filter((term): term is LinguisticTerm => !!term);
 
-    if (triangularTerms.length === 0) return null;
+    if (selectedTerms.length === 0) return null;
 
-    // Параметри трикутних чисел мають бути впорядковані (left <= middle <= right)
-    const orderedTerms = triangularTerms.map((t) => orderTriangular(t));
-
-    // Витягуємо параметри L, M, R з усіх трикутних чисел
-    const lefts = orderedTerms.map((t) => t.left);
-    const middles = orderedTerms.map((t) => t.middle);
-    const rights = orderedTerms.map((t) => t.right);
+    // Терми різних форм зводимо до обвідних трапецій (для трикутника b = c),
+    // параметри вже впорядковані (a <= b <= c <= d)
+    const envelopes = selectedTerms.map(getTermTrapeze);
 
     // Агрегація в трапеційний терм (a, b, c, d) [4, 10]
-    // a = min(lefts); d = max(rights)
-    // b = min(middles); c = max(middles)
-    const a = Math.min(...lefts);
-    const b = Math.min(...middles);
-    const c = Math.max(...middles);
-    const d = Math.max(...rights);
+    // a = min(a); d = max(d)
+    // b = min(b); c = max(c)
+    const a = Math.min(...envelopes.map((t) => t.a));
+    const b = Math.min(...envelopes.map((t) => t.b));
+    const c = Math.max(...envelopes.map((t) => t.c));
+    const d = Math.max(...envelopes.map((t) => t.d));
 
     return { a, b, c, d };
   };
@@ -231,6 +2916,7 @@ function App() {
   };
 
   const upsertCurrentTerm = (partial?: Partial<LinguisticTerm>) => {
+    labelHistory(`Edit term ${currentTermIndex + 1}`);
     setTerms((prev) => {
       if (prev.length === 0 && numLinguisticTerms > 0) {
         return [
@@ -259,34 +2945,272 @@ function App() {
     });
   };
 
-  const normalizeCurrentTerm = () => {
-    // Min–max normalization from [0, 100] to [0, 1]
+  const [isNormalizeOpen, setIsNormalizeOpen] = useState<boolean>(false);
+  const [normalizeForm, setNormalizeForm] = useState<ScaleNormalization>({
+    source: { l: 0, r: 100 },
+    target: { l: 0, r: 1 },
+  });
+  const [showOriginalUnits, setShowOriginalUnits] = useState<boolean>(false);
+
+  // Терми у вихідних одиницях експертів
+  const originalTerms = useMemo(
+    () =>
+      normalization
+        ? terms.map((t) =>
+            rescaleTerm(t, normalization.target, normalization.source)
+          )
+        : terms,
+    [terms, normalization]
+  );
+
+  const handleOpenNormalize = () => {
+    // Start from the range the terms actually span
+    const supports = terms.filter(isTermComplete).map(getTermTrapeze);
+    setNormalizeForm({
+      source: supports.length
+        ? {
+            l: Math.min(...supports.map((t) => t.a)),
+            r: Math.max(...supports.map((t) => t.d)),
+          }
+        : { l: 0, r: 100 },
+      target: { l: 0, r: 1 },
+    });
+    setIsNormalizeOpen(true);
+  };
+
+  const handleNormalize = () => {
+    const { source, target } = normalizeForm;
+    if (!isValidRange(source) || !isValidRange(target)) return;
+    labelHistory("Normalize scale");
+    setTerms((prev) => prev.map((t) => rescaleTerm(t, source, target)));
+    setNormalization(normalizeForm);
+    setIsNormalizeOpen(false);
+  };
+
+  const handleRevertNormalization = () => {
+    if (!normalization) return;
+    labelHistory("Revert to original units");
+    setTerms(originalTerms);
+    setNormalization(null);
+    setShowOriginalUnits(false);
+  };
+
+  const currentShape = currentTerm.shape ?? "triangular";
+
+  const [isGeneratorOpen, setIsGeneratorOpen] = useState<boolean>(false);
+  const [generatorRange, setGeneratorRange] = useState<Interval>({
+    l: 0,
+    r: 1,
+  });
+  const [generatorPattern, setGeneratorPattern] =
+    useState<ScalePattern>("uniform");
+
+  // A new scale waiting for the user to clear the cells it invalidates
+  const [pendingScale, setPendingScale] = useState<{
+    label: string;
+    terms: LinguisticTerm[];
+    invalidCells: CellAddress[];
+  } | null>(null);
+
+  const applyTermScale = (
+    nextTerms: LinguisticTerm[],
+    label: string,
+    clearedCells: CellAddress[]
+  ) => {
+    labelHistory(label);
+    setTerms(nextTerms);
+    setNormalization(null);
+    setNumLinguisticTerms(nextTerms.length);
+    setCurrentTermIndex(0);
+    if (clearedCells.length === 0) return;
+    const cleared = new Set(
+      clearedCells.map(({ expert, row, col }) => `${expert}:${row}:${col}`)
+    );
+    setExperts((prev) =>
+      prev.map((expert, k) => ({
+        ...expert,
+        tableData: expert.tableData.map((cells, i) =>
+          cells.map((cell, j) => (cleared.has(`${k}:${i}:${j}`) ? {} : cell))
+        ),
+      }))
+    );
+    resetTransformations();
+  };
+
+  // Entered estimates must not silently lose their terms
+  const replaceTermScale = (nextTerms: LinguisticTerm[], label: string) => {
+    const invalidCells = findInvalidCells(
+      experts,
+      nextTerms.map((t) => t.shortName)
+    );
+    if (invalidCells.length === 0) applyTermScale(nextTerms, label, []);
+    else setPendingScale({ label, terms: nextTerms, invalidCells });
+  };
+
+  const handleConfirmPendingScale = () => {
+    if (!pendingScale) return;
+    applyTermScale(
+      pendingScale.terms,
+      pendingScale.label,
+      pendingScale.invalidCells
+    );
+    setPendingScale(null);
+  };
+
+  const handleGenerateScale = () => {
+    if (!(generatorRange.l < generatorRange.r)) return;
+    replaceTermScale(
+      generateTermScale(
+        numLinguisticTerms,
+        generatorRange.l,
+        generatorRange.r,
+        generatorPattern
+      ),
+      "Generate scale"
+    );
+    setIsGeneratorOpen(false);
+  };
+
+  const [isLibraryOpen, setIsLibraryOpen] = useState<boolean>(false);
+  const [savedScales, setSavedScales] = useState<SavedScale[]>([]);
+  const [previewScaleId, setPreviewScaleId] = useState<string | null>(null);
+  const [newScaleName, setNewScaleName] = useState<string>("");
+  const [newScaleDescription, setNewScaleDescription] = useState<string>("");
+  const libraryFileInputRef = useRef<HTMLInputElement>(null);
+
+  const previewScale =
+    savedScales.find((s) => s.id === previewScaleId) ?? savedScales[0];
+
+  const updateScaleLibrary = (scales: SavedScale[]) => {
+    storeScaleLibrary(scales);
+    setSavedScales(scales);
+  };
+
+  const handleOpenLibrary = () => {
+    setSavedScales(loadScaleLibrary());
+    setIsLibraryOpen(true);
+  };
+
+  const handleSaveScale = () => {
+    const name = newScaleName.trim();
+    if (!name) return;
+    const scale: SavedScale = {
+      id: createSessionId(),
+      name,
+      description: newScaleDescription.trim(),
+      savedAt: Date.now(),
+      terms,
+    };
+    // Saving under an existing name replaces that scale
+    updateScaleLibrary([
+      scale,
+      ...loadScaleLibrary().filter((s) => s.name !== name),
+    ]);
+    setPreviewScaleId(scale.id);
+    setNewScaleName("");
+    setNewScaleDescription("");
+  };
+
+  const handleLoadScale = (scale: SavedScale) => {
+    replaceTermScale(scale.terms, `Load scale "${scale.name}"`);
+    setIsLibraryOpen(false);
+  };
+
+  const handleDeleteScale = (id: string) => {
+    updateScaleLibrary(loadScaleLibrary().filter((s) => s.id !== id));
+  };
+
+  const handleExportLibrary = () => {
+    const library: ScaleLibraryFile = {
+      kind: SCALE_LIBRARY_KIND,
+      schemaVersion: SCALE_LIBRARY_SCHEMA_VERSION,
+      scales: loadScaleLibrary(),
+    };
+    downloadFile(
+      JSON.stringify(library, null, 2),
+      "term-scales.json",
+      "application/json"
+    );
+  };
+
+  const handleImportLibrary = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    let imported: SavedScale[];
+    try {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a valid JSON file`);
+      }
+      imported = parseScaleLibraryFile(raw);
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    // Imported scales win over local ones with the same name
+    const names = new Set(imported.map((s) => s.name));
+    updateScaleLibrary([
+      ...imported,
+      ...loadScaleLibrary().filter((s) => !names.has(s.name)),
+    ]);
+  };
+
+  const renderTermParamField = (
+    label: string,
+    value: number | undefined,
+    onChange: (value: number) => void
+  ) => (
+    <TextField
+      key={label}
+      label={label}
+      type="number"
+      value={value === undefined || Number.isNaN(value) ? "" : value}
+      onChange={(e) =>
+        onChange(e.target.value === "" ? Number.NaN : Number(e.target.value))
+      }
+      slotProps={{ input: { inputMode: "decimal" } }}
+      fullWidth
+    />
+  );
+
+  const handleTermShapeChange = (shape: TermShape) => {
+    // Start the new shape from the current triangle
     const { left, middle, right } = currentTerm.tri;
-    const normalized = orderTriangular({
-      left: left / 100,
-      middle: middle / 100,
-      right: right / 100,
+    upsertCurrentTerm({
+      shape,
+      trap: currentTerm.trap ?? { a: left, b: middle, c: middle, d: right },
+      gauss: currentTerm.gauss ?? {
+        mean: middle,
+        sigma: (right - left) / (2 * GAUSSIAN_SUPPORT_SIGMAS) || 0.1,
+      },
     });
-    upsertCurrentTerm({ tri: normalized });
   };
 
   // ----- FIX STARTS HERE -----
   const handleFinish = () => {
-    // Check if table dimensions match current settings
-    const isTableInvalid =
-      tableData.length !== numAlternatives ||
-      tableData[0]?.length !== numCriterias;
-
-    if (isTableInvalid) {
-      // Initialize table with empty cells IF dimensions are mismatched
-      const newTableData = Array.from({ length: numAlternatives }, () =>
-        Array.from({ length: numCriterias }, () => ({
-          from: undefined,
-          to: undefined,
-        }))
-      );
-      setTableData(newTableData);
-    }
+    labelHistory("Finish term setup");
+    // Fit every expert's table to the current settings, keeping the cells
+    // that are still inside it
+    setExperts((prev) =>
+      prev.map((expert) => ({
+        ...expert,
+        tableData: resizeTable(expert.tableData, numAlternatives, numCriterias),
+      }))
+    );
+    // Keep weights of the criterias that still exist, new ones weigh 1
+    setCriteriaWeights((prev) =>
+      Array.from({ length: numCriterias }, (_, j) => prev[j] ?? { value: 1 })
+    );
+    setCriteriaTypes((prev) =>
+      Array.from({ length: numCriterias }, (_, j) => prev[j] ?? "benefit")
+    );
+    setAlternativeItems((prev) => resizeItems(prev, numAlternatives));
+    setCriteriaItems((prev) => resizeItems(prev, numCriterias));
     
     // Reset transformation state, as requested
     setIsTransformedToIntervals(false);
@@ -300,6 +3224,7 @@ function App() {
   // ----- FIX ENDS HERE -----
 
   const getCellText = (cell: CellValue) => {
+    if (cell.expression !== undefined) return cell.expression;
     const { from, to } = cell;
     if (from && to) {
       if (from === to) {
@@ -316,88 +3241,185 @@ function App() {
     return "";
   };
 
-  const handleCellClick = (row: number, col: number) => {
-    if (isTransformedToTrapeze) return; // Disable editing after trapeze transformation
-    const cell = tableData[row][col];
-    setModalFrom(cell.from || "");
-    setModalTo(cell.to || "");
-    setEditingCell({ row, col });
+  const handleMatrixFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setMatrixImportText(await file.text());
+  };
+
+  const handleMatrixImportApply = () => {
+    if (!matrixImport || matrixImport.errors.length > 0) return;
+    labelHistory("Import matrix");
+    setTableData(matrixImport.tableData);
+    resetTransformations();
+    setMatrixImportText("");
+    setIsMatrixImportOpen(false);
+  };
+
+  // Перевірка виразу клітинки під час введення
+  const modalExpressionCheck = useMemo(
+    () =>
+      modalExpression.trim() === ""
+        ? null
+        : parseTermExpression(
+            modalExpression,
+            terms.map((t) => t.shortName)
+          ),
+    [modalExpression, terms]
+  );
+
+  const modalSuggestions = useMemo(
+    () =>
+      getExpressionSuggestions(
+        modalExpression,
+        terms.map((t) => t.shortName)
+      ),
+    [modalExpression, terms]
+  );
+
+  const handleModalPick = (pick: CellValue) => {
+    setModalPick(pick);
+    setModalExpression(getCellText(pick));
+  };
+
+  const handleSuggestionClick = (suggestion: string) =>
+    setModalExpression(
+      `${modalExpression.replace(/[^\s()]*$/, "")}${suggestion} `
+    );
+
+  const handleCellClick = (row: number, col: number) => {
+    if (isTransformedToTrapeze) return; // Disable editing after trapeze transformation
+    const cell = tableData[row][col];
+    setModalExpression(getCellText(cell));
+    setModalPick(cell.expression === undefined ? cell : {});
+    setEditingCell({ row, col });
+  };
+
+  const handleModalSave = () => {
+    if (!editingCell) return;
+    if (modalExpressionCheck && "error" in modalExpressionCheck) return;
+    labelHistory(
+      `Edit cell ${alternativeNames[editingCell.row]} / ${criteriaNames[editingCell.col]}`
+    );
+    const { row, col } = editingCell;
+    const next: CellValue =
+      modalExpression.trim() === ""
+        ? {}
+        : { expression: modalExpression.trim() };
+    // Rows are shared with the history snapshots, so they are never written
+    // in place
+    setTableData(
+      tableData.map((r, i) =>
+        i === row ? r.map((c, j) => (j === col ? next : c)) : r
+      )
+    );
+    setEditingCell(null);
+  };
+
+  const isAllCellsFilled = () => {
+    return experts.every((expert) =>
+      expert.tableData.every((row) =>
+        row.every((cell) => cell.from || cell.to || cell.expression)
+      )
+    );
+  };
+
+  // Перетворення оцінки клітинки у набір термів (hesitant term set)
+  const getCellLTSets = (
+    cell: CellValue,
+    termShortNames: string[]
+  ): string[] => {
+    if (cell.expression !== undefined) {
+      const parsed = parseTermExpression(cell.expression, termShortNames);
+      return "terms" in parsed ? parsed.terms : [];
+    }
+
+    const { from, to } = cell;
+
+    if (!from && !to) {
+      return [];
+    }
+
+    // Якщо задано один терм
+    if (from && from === to) {
+      return [from];
+    }
+
+    // Логіка для "в межах (within)" [7]
+    if (from && to) {
+      const startIndex = termShortNames.indexOf(from);
+      const endIndex = termShortNames.indexOf(to);
+
+      if (startIndex !== -1 && endIndex !== -1) {
+        const minIndex = Math.min(startIndex, endIndex);
+        const maxIndex = Math.max(startIndex, endIndex);
+
+        // Включаємо всі терми між from та to включно [1]
+        return termShortNames.slice(minIndex, maxIndex + 1);
+      }
+    }
+
+    // Логіка для "over" (вище) [8]
+    if (from && !to) {
+      const startIndex = termShortNames.indexOf(from);
+      if (startIndex !== -1) {
+        // Включаючи сам терм "from" і всі наступні
+        return termShortNames.slice(startIndex);
+      }
+    }
+
+    // Логіка для "less" (нижче) [8]
+    if (!from && to) {
+      const endIndex = termShortNames.indexOf(to);
+      if (endIndex !== -1) {
+        // Включаючи сам терм "to" і всі попередні
+        return termShortNames.slice(0, endIndex + 1);
+      }
+    }
+
+    return [];
   };
 
-  const handleModalSave = () => {
-    if (!editingCell) return;
-    const newTableData = [...tableData];
-    newTableData[editingCell.row][editingCell.col] = {
-      from: modalFrom || undefined,
-      to: modalTo || undefined,
-    };
-    setTableData(newTableData);
-    setEditingCell(null);
+  const getExpertLTSets = (expert: Expert): string[][][] => {
+    // Отримуємо впорядковані короткі імена термів
+    const termShortNames = terms.map((t) => t.shortName);
+    return expert.tableData.map((row) =>
+      row.map((cell) => getCellLTSets(cell, termShortNames))
+    );
   };
 
-  const isAllCellsFilled = () => {
-    return tableData.every((row) => row.every((cell) => cell.from || cell.to));
-  };
+  // Weighted merge has no majority to count when every weight is 0
+  const hasZeroExpertWeights =
+    expertMergeMode === "weighted" &&
+    experts.length > 1 &&
+    experts.every((e) => e.weight === 0);
 
   const handleTransformToIntervals = () => {
-    if (!isAllCellsFilled() || terms.length === 0) {
+    if (!isAllCellsFilled() || terms.length === 0 || hasZeroExpertWeights) {
       console.warn(
         "Cannot transform: Not all cells are filled or linguistic terms are missing."
       );
       return;
     }
 
-    // Отримуємо впорядковані короткі імена термів
+    const expertLTSets = experts.map(getExpertLTSets);
     const termShortNames = terms.map((t) => t.shortName);
 
-    const intervalLTSets: string[][][] = tableData.map((row: CellValue[]) =>
-      row.map((cell: CellValue) => {
-        const { from, to } = cell;
-
-        if (!from && !to) {
-          return [];
-        }
-
-        // Якщо задано один терм
-        if (from && from === to) {
-          return [from];
-        }
-
-        // Логіка для "в межах (within)" [7]
-        if (from && to) {
-          const startIndex = termShortNames.indexOf(from);
-          const endIndex = termShortNames.indexOf(to);
-
-          if (startIndex !== -1 && endIndex !== -1) {
-            const minIndex = Math.min(startIndex, endIndex);
-            const maxIndex = Math.max(startIndex, endIndex);
-
-            // Включаємо всі терми між from та to включно [1]
-            return termShortNames.slice(minIndex, maxIndex + 1);
-          }
-        }
-
-        // Логіка для "over" (вище) [8]
-        if (from && !to) {
-          const startIndex = termShortNames.indexOf(from);
-          if (startIndex !== -1) {
-            // Включаючи сам терм "from" і всі наступні
-            return termShortNames.slice(startIndex);
-          }
-        }
-
-        // Логіка для "less" (нижче) [8]
-        if (!from && to) {
-          const endIndex = termShortNames.indexOf(to);
-          if (endIndex !== -1) {
-            // Включаючи сам терм "to" і всі попередні
-            return termShortNames.slice(0, endIndex + 1);
-          }
-        }
-
-        return [];
-      })
-    );
+    // Групова матриця: поклітинне об'єднання наборів термів експертів
+    const intervalLTSets: string[][][] =
+      expertLTSets.length === 1
+        ? expertLTSets[0]
+        : expertLTSets[0].map((row, i) =>
+            row.map((_, j) =>
+              mergeExpertLTSets(
+                expertLTSets.map((m) => m[i][j]),
+                experts.map((e) => e.weight),
+                expertMergeMode,
+                termShortNames
+              )
+            )
+          );
 
     setInternalIntervalLTSets(intervalLTSets);
     setIsTransformedToIntervals(true);
@@ -407,26 +3429,31 @@ function App() {
     setBestProbability(null);
   };
 
+  const getTrapezeMatrix = (intervalLTSets: string[][][]): Trapeze[][] =>
+    intervalLTSets.map((row: string[][]) =>
+      row.map((cellLTSets, colIndex) => {
+        // Використовуємо хелпер з поточними термами
+        const trapeze = getTrapezeFromLTSets(cellLTSets, terms);
+
+        // Якщо трапеція не може бути сформована (наприклад, через помилку), використовуємо заглушку
+        if (!trapeze) {
+          // Повертаємо трапецію, яка не вплине на обчислення (наприклад, (0, 0, 0, 0))
+          return { a: 0, b: 0, c: 0, d: 0 };
+        }
+        // Критерії витрат дзеркалимо до агрегації
+        return criteriaTypes[colIndex] === "cost"
+          ? mirrorTrapeze(trapeze, termUniverse)
+          : trapeze;
+      })
+    );
+
   const handleTransformToTrapeze = () => {
     if (!isTransformedToIntervals || internalIntervalLTSets.length === 0) {
       console.error("Must transform to intervals first.");
       return;
     }
 
-    const trapezeMatrix: Trapeze[][] = internalIntervalLTSets.map(
-      (row: string[][]) =>
-        row.map((cellLTSets) => {
-          // Використовуємо хелпер з поточними термами
-          const trapeze = getTrapezeFromLTSets(cellLTSets, terms);
-
-          // Якщо трапеція не може бути сформована (наприклад, через помилку), використовуємо заглушку
-          if (!trapeze) {
-            // Повертаємо трапецію, яка не вплине на обчислення (наприклад, (0, 0, 0, 0))
-            return { a: 0, b: 0, c: 0, d: 0 };
-          }
-          return trapeze;
-        })
-    );
+    const trapezeMatrix = getTrapezeMatrix(internalIntervalLTSets);
 
     setInternalTrapezeMatrix(trapezeMatrix);
     setIsTransformedToTrapeze(true);
@@ -435,148 +3462,466 @@ function App() {
     setBestProbability(null);
   };
 
-  // Хелпер функція для застосування α-перерізу (Крок 5)
-  const getIntervalFromTrapeze = (
-    trapeze: Trapeze,
-    alpha: number
-  ): Interval => {
-    const { a, b, c, d } = trapeze;
-    // Формула (1): [l, r] = [α*b + (1-α)*a, α*c + (1-α)*d] [5]
-    // PDF Formula (1) is [α(a₂-a₁)+a₁, a₄-α(a₄-a₃)]
-    // l = a + α(b - a) = a(1-α) + αb
-    // r = d - α(d - c) = d(1-α) + αc
-    const l = alpha * b + (1 - alpha) * a;
-    const r = alpha * c + (1 - alpha) * d;
-    return { l: l, r: r };
-  };
-
   // Хелпер функція для розрахунку показника ймовірності (Крок 6)
-  // Використовуємо формулу (3) з PDF: p(I >= [0,1]) = max(1 - max((1-l)/(r-l+1), 0), 0)
-  const calculateProbability = (interval: Interval): number => {
-    const { l, r } = interval;
-
-    // This formula matches the results from the PDF and screenshots
-    const prob = Math.max(1 - Math.max((1 - l) / (r - l + 1), 0), 0);
-    return prob;
-  };
+  // Загальна формула можливості p(I >= R); для R = [0, 1] це формула (3) з PDF:
+  // p(I >= [0,1]) = max(1 - max((1-l)/(r-l+1), 0), 0)
+  const calculateProbability = (
+    interval: Interval,
+    reference: Interval
+  ): number => possibilityDegree(interval, reference);
 
   const handleCalculateMethod = () => {
-    console.log("Calculating with method:", calculationMethod);
+    const methods = isCompareMode ? CALCULATION_METHODS : [calculationMethod];
+    console.log("Calculating with methods:", methods.join(", "));
 
     if (!isTransformedToTrapeze || internalTrapezeMatrix.length === 0) {
       console.error("Trapeze matrix is not ready. Run transformation first.");
       return;
     }
 
-    const trapezeMatrix = internalTrapezeMatrix;
-    const currentNumAlternatives = numAlternatives;
-    const currentNumCriterias = numCriterias;
     const results: DisplayResult[] = Array.from(
-      { length: currentNumAlternatives },
+      { length: numAlternatives },
       () => ({})
     );
     let maxProbability = -1;
 
-    // --- 1. Обчислення інтервалів I_ij (α-переріз) для всіх методів ---
-    const intervalMatrix: Interval[][] = trapezeMatrix.map((row) =>
-      row.map((trapeze) => getIntervalFromTrapeze(trapeze, alpha))
-    );
-
-    for (let i = 0; i < currentNumAlternatives; i++) {
-      const trapezesForAlternative = trapezeMatrix[i];
-      const intervalsForAlternative = intervalMatrix[i];
-      let finalInterval: Interval;
-      let probability: number;
-
-      if (
-        currentNumCriterias === 0 ||
-        intervalsForAlternative.length === 0 ||
-        trapezesForAlternative.length === 0
-      )
-        continue;
+    for (let i = 0; i < numAlternatives; i++) {
+      const trapezesForAlternative = internalTrapezeMatrix[i];
+      if (numCriterias === 0 || !trapezesForAlternative?.length) continue;
 
-      if (calculationMethod === "generalized") {
-        // GENERALIZED (Узагальнений) [2]:
-        // Крок 4: Агрегація T_ij в комбінований трапеційний терм GS_i (Min/Min/Max/Max)
-        const min_a = Math.min(
-          ...trapezesForAlternative.map((trap) => trap.a)
+      for (const method of methods) {
+        const finalInterval = aggregateAlternative(
+          method,
+          trapezesForAlternative,
+          alpha,
+          aggregationSettings
         );
-        const min_b = Math.min(
-          ...trapezesForAlternative.map((trap) => trap.b)
+        const probability = calculateProbability(
+          finalInterval,
+          getReferenceInterval(
+            method,
+            internalTrapezeMatrix,
+            alpha,
+            aggregationSettings
+          )
         );
-        const max_c = Math.max(
-          ...trapezesForAlternative.map((trap) => trap.c)
+        results[i] = withMethodResult(
+          results[i],
+          method,
+          finalInterval,
+          probability
         );
-        const max_d = Math.max(
-          ...trapezesForAlternative.map((trap) => trap.d)
+        if (method === calculationMethod && probability > maxProbability)
+          maxProbability = probability;
+      }
+    }
+
+    // Індивідуальні ранжування: матриця кожного експерта окремо
+    if (experts.length > 1) {
+      experts.forEach((expert, k) => {
+        const expertTrapezes = getTrapezeMatrix(getExpertLTSets(expert));
+        // Цільова альтернатива береться з матриці того ж експерта
+        const reference = getReferenceInterval(
+          calculationMethod,
+          expertTrapezes,
+          alpha,
+          aggregationSettings
         );
+        expertTrapezes.forEach((trapezesForAlternative, i) => {
+          if (!results[i] || trapezesForAlternative.length === 0) return;
+          const probability = calculateProbability(
+            aggregateAlternative(
+              calculationMethod,
+              trapezesForAlternative,
+              alpha,
+              aggregationSettings
+            ),
+            reference
+          );
+          const expertProbabilities = results[i].expertProbabilities ?? [];
+          expertProbabilities[k] = probability;
+          results[i] = { ...results[i], expertProbabilities };
+        });
+      });
+    }
 
-        const T_i_combined: Trapeze = {
-          a: min_a,
-          b: min_b,
-          c: max_c,
-          d: max_d,
-        };
+    setDisplayResults(results);
+    setBestProbability(maxProbability);
+  };
 
-        // Крок 5: Трансформація T_i_combined в інтервал I_i (α-cut)
-        finalInterval = getIntervalFromTrapeze(T_i_combined, alpha);
-        probability = calculateProbability(finalInterval);
+  const updateCurrentExpert = (partial: Partial<Expert>) =>
+    setExperts((prev) =>
+      prev.map((expert, k) =>
+        k === currentExpertIndex ? { ...expert, ...partial } : expert
+      )
+    );
 
-        results[i] = {
-          ...results[i],
-          genInterval: finalInterval,
-          genProbability: probability,
-        };
-        if (probability > maxProbability) maxProbability = probability;
-      } else if (calculationMethod === "pessimistic") {
-        // PESSIMISTIC (Песимістичний) [11]: MIN операція на I_ij (Крок 6)
-        // I_i = [ min(l_j), min(r_j) ] (Формула 2)
+  const handleAddExpert = () => {
+    labelHistory("Add expert");
+    setExperts((prev) => [
+      ...prev,
+      createExpert(
+        `Expert ${prev.length + 1}`,
+        createEmptyTable(tableData.length, tableData[0]?.length ?? 0)
+      ),
+    ]);
+    setCurrentExpertIndex(experts.length);
+    resetTransformations();
+  };
 
-        const min_l = Math.min(
-          ...intervalsForAlternative.map((inv) => inv.l)
-        );
-        const min_r = Math.min(
-          ...intervalsForAlternative.map((inv) => inv.r)
-        );
-        finalInterval = { l: min_l, r: min_r };
-        probability = calculateProbability(finalInterval);
+  const handleDeleteExpert = () => {
+    if (experts.length <= 1) return;
+    labelHistory("Delete expert");
+    setExperts((prev) => prev.filter((_, k) => k !== currentExpertIndex));
+    setCurrentExpertIndex((k) => Math.max(0, k - 1));
+    resetTransformations();
+  };
 
-        results[i] = {
-          ...results[i],
-          pessInterval: finalInterval,
-          pessProbability: probability,
-        };
-        if (probability > maxProbability) maxProbability = probability;
-      } else if (calculationMethod === "optimistic") {
-        // OPTIMISTIC (Оптимістичний) [12]: MAX операція на I_ij (Крок 6)
-        // I_i = [ max(l_j), max(r_j) ]
+  const alternativeNames = useMemo(
+    () => getItemLabels(alternativeItems, numAlternatives, "A"),
+    [alternativeItems, numAlternatives]
+  );
+  const criteriaNames = useMemo(
+    () => getItemLabels(criteriaItems, numCriterias, "C"),
+    [criteriaItems, numCriterias]
+  );
 
-        const max_l = Math.max(
-          ...intervalsForAlternative.map((inv) => inv.l)
-        );
-        const max_r = Math.max(
-          ...intervalsForAlternative.map((inv) => inv.r)
-        );
-        finalInterval = { l: max_l, r: max_r };
-        probability = calculateProbability(finalInterval);
+  // Перевірка вставленої матриці ще до її застосування
+  const matrixImport = useMemo(
+    () =>
+      matrixImportText.trim() === ""
+        ? null
+        : parseMatrixText(
+            matrixImportText,
+            terms.map((t) => t.shortName),
+            alternativeNames,
+            criteriaNames
+          ),
+    [matrixImportText, terms, alternativeNames, criteriaNames]
+  );
 
-        results[i] = {
-          ...results[i],
-          optInterval: finalInterval,
-          optProbability: probability,
-        };
-        if (probability > maxProbability) maxProbability = probability;
+  const updateItems = (
+    setItems: Dispatch<SetStateAction<MatrixItem[]>>,
+    count: number,
+    index: number,
+    patch: Partial<MatrixItem>
+  ) =>
+    setItems((prev) =>
+      resizeItems(prev, count).map((item, i) =>
+        i === index ? { ...item, ...patch } : item
+      )
+    );
+
+  const handleAlternativeHeaderClick = (row: number) => {
+    setModalItem(alternativeItems[row] ?? { name: "", description: "" });
+    setEditingAlternative(row);
+  };
+
+  const handleAlternativeModalSave = () => {
+    if (editingAlternative === null) return;
+    labelHistory(`Edit alternative ${alternativeNames[editingAlternative]}`);
+    // Names are labels only, the results stay valid
+    updateItems(
+      setAlternativeItems,
+      numAlternatives,
+      editingAlternative,
+      modalItem
+    );
+    setEditingAlternative(null);
+  };
+
+  const handleAddAlternative = () => {
+    labelHistory("Add alternative");
+    setExperts((prev) =>
+      prev.map((expert) => ({
+        ...expert,
+        tableData: [...expert.tableData, ...createEmptyTable(1, numCriterias)],
+      }))
+    );
+    setNumAlternatives((n) => n + 1);
+    // The new row has no estimates yet, so the pipeline starts over
+    resetTransformations();
+  };
+
+  const handleAlternativeEdit = (edit: MatrixEdit) => {
+    if (edit.kind === "remove" && numAlternatives <= 1) return;
+    labelHistory(
+      `${MATRIX_EDIT_LABELS[edit.kind]} alternative ${alternativeNames[edit.index]}`
+    );
+    setExperts((prev) =>
+      prev.map((expert) => ({
+        ...expert,
+        tableData: applyMatrixEdit(expert.tableData, edit),
+      }))
+    );
+    setAlternativeItems((prev) =>
+      withDuplicateName(
+        applyMatrixEdit(resizeItems(prev, numAlternatives), edit),
+        edit
+      )
+    );
+    setNumAlternatives((n) => n + getMatrixEditDelta(edit));
+    setEditingAlternative(null);
+    // The target alternative follows its row; removing it restores [0, 1]
+    const referenceIndex =
+      probabilityReference.kind === "alternative"
+        ? applyMatrixEdit(
+            alternativeNames.map((_, i) => i),
+            edit
+          ).indexOf(probabilityReference.index)
+        : null;
+    if (referenceIndex !== null)
+      setProbabilityReference(
+        referenceIndex === -1
+          ? DEFAULT_REFERENCE
+          : { kind: "alternative", index: referenceIndex }
+      );
+
+    // Alternatives are calculated independently: move the computed rows with
+    // their cells instead of recalculating
+    const editRows = <T,>(rows: T[]) =>
+      rows.length > 0 ? applyMatrixEdit(rows, edit) : rows;
+    setInternalIntervalLTSets(editRows);
+    setInternalTrapezeMatrix(editRows);
+    // Every probability was measured against the removed target
+    if (referenceIndex === -1) {
+      setDisplayResults([]);
+      setBestProbability(null);
+      return;
+    }
+    const results = editRows(displayResults);
+    setDisplayResults(results);
+    if (edit.kind === "remove" && results.length > 0)
+      setBestProbability(
+        Math.max(
+          ...results.map(
+            (res) => getMethodProbability(res, calculationMethod) ?? -1
+          )
+        )
+      );
+  };
+
+  const handleAddCriterion = () => {
+    labelHistory("Add criteria");
+    setExperts((prev) =>
+      prev.map((expert) => ({
+        ...expert,
+        tableData: expert.tableData.map((row) => [
+          ...row,
+          ...createEmptyTable(1, 1)[0],
+        ]),
+      }))
+    );
+    setNumCriterias((n) => n + 1);
+    resetTransformations();
+  };
+
+  const handleCriterionEdit = (edit: MatrixEdit) => {
+    if (edit.kind === "remove" && numCriterias <= 1) return;
+    labelHistory(
+      `${MATRIX_EDIT_LABELS[edit.kind]} criterion ${criteriaNames[edit.index]}`
+    );
+    const editColumns = <T,>(rows: T[][]) =>
+      rows.map((row) => applyMatrixEdit(row, edit));
+    setExperts((prev) =>
+      prev.map((expert) => ({
+        ...expert,
+        tableData: editColumns(expert.tableData),
+      }))
+    );
+    setCriteriaItems((prev) =>
+      withDuplicateName(
+        applyMatrixEdit(resizeItems(prev, numCriterias), edit),
+        edit
+      )
+    );
+    setCriteriaWeights((prev) =>
+      applyMatrixEdit(
+        Array.from({ length: numCriterias }, (_, j) => prev[j] ?? { value: 1 }),
+        edit
+      )
+    );
+    setCriteriaTypes((prev) =>
+      applyMatrixEdit(
+        Array.from({ length: numCriterias }, (_, j) => prev[j] ?? "benefit"),
+        edit
+      )
+    );
+    setNumCriterias((n) => n + getMatrixEditDelta(edit));
+    setEditingCriterion(null);
+
+    // Cells are transformed one by one, so the intermediate matrices only
+    // lose or gain a column
+    setInternalIntervalLTSets(editColumns);
+    setInternalTrapezeMatrix(editColumns);
+    // Aggregation does not depend on the order of criterias, but a removed or
+    // duplicated one changes every alternative
+    if (edit.kind !== "move") {
+      setDisplayResults([]);
+      setBestProbability(null);
+    }
+  };
+
+  // Повне попарне ранжування за ступенями можливості p(I_i ≥ I_k)
+  const pairwiseRanking = useMemo(() => {
+    const intervals = displayResults.map((res) =>
+      getMethodInterval(res, calculationMethod)
+    );
+    const n = intervals.length;
+    if (n < 2 || intervals.some((interval) => !interval)) return null;
+    const known = intervals as Interval[];
+
+    const matrix = known.map((a) => known.map((b) => possibilityDegree(a, b)));
+    // Ранжування за Сюй: r_i = (Σ_k p_ik + n/2 - 1) / (n(n - 1))
+    const scores = matrix.map(
+      (row) => (row.reduce((sum, p) => sum + p, 0) + n / 2 - 1) / (n * (n - 1))
+    );
+    const order = known.map((_, i) => i).sort((i, k) => scores[k] - scores[i]);
+
+    const ties: [number, number][] = [];
+    // Вкладені інтервали: жоден не домінує, порядок залежить лише від p
+    const incomparable: [number, number][] = [];
+    for (let i = 0; i < n; i++) {
+      for (let k = i + 1; k < n; k++) {
+        if (Math.abs(matrix[i][k] - 0.5) < POSSIBILITY_EPSILON) {
+          ties.push([i, k]);
+          continue;
+        }
+        const a = known[i];
+        const b = known[k];
+        const isNested =
+          (a.l <= b.l && b.r <= a.r) || (b.l <= a.l && a.r <= b.r);
+        if (isNested) incomparable.push([i, k]);
       }
     }
 
-    setDisplayResults(results);
-    setBestProbability(maxProbability);
+    const orderText = order
+      .map((i, pos) => {
+        if (pos === 0) return alternativeNames[i];
+        const prev = order[pos - 1];
+        const isTie = Math.abs(matrix[prev][i] - 0.5) < POSSIBILITY_EPSILON;
+        return `${isTie ? "=" : "≻"} ${alternativeNames[i]}`;
+      })
+      .join(" ");
+
+    return { matrix, scores, orderText, ties, incomparable };
+  }, [displayResults, calculationMethod, alternativeNames]);
+
+  // Ранги кожного експерта для обраного методу
+  const expertRanks = useMemo(
+    () =>
+      experts.map((_, k) =>
+        rankByProbability(
+          displayResults.map((res) => res.expertProbabilities?.[k])
+        )
+      ),
+    [experts, displayResults]
+  );
+
+  const handleAggregationOperatorChange = (
+    e: SelectChangeEvent<AggregationOperator>
+  ) => {
+    const operator = e.target.value as AggregationOperator;
+    setAggregationOperator(operator);
+    if (isAveragingOperator(operator)) {
+      setCalculationMethod("generalized");
+      setIsCompareMode(false);
+    }
+    setDisplayResults([]);
+    setBestProbability(null);
+  };
+
+  const handleOptimismChange = (value: number) => {
+    const next = Math.max(0, Math.min(1, value));
+    if (next === optimism) return;
+    setOptimism(next);
+    setDisplayResults([]);
+    setBestProbability(null);
+  };
+
+  const handleReferenceChange = (reference: ProbabilityReference) => {
+    setProbabilityReference(reference);
+    setDisplayResults([]);
+    setBestProbability(null);
+  };
+
+  const handleReferenceKindChange = (kind: ProbabilityReference["kind"]) => {
+    if (kind === "fixed") handleReferenceChange(DEFAULT_REFERENCE);
+    else if (kind === "term")
+      handleReferenceChange({
+        kind,
+        shortName: terms.find(isTermComplete)?.shortName ?? "",
+      });
+    else handleReferenceChange({ kind, index: 0 });
+  };
+
+  const handleCriterionHeaderClick = (col: number) => {
+    setModalItem(criteriaItems[col] ?? { name: "", description: "" });
+    setModalWeight(criteriaWeights[col] ?? { value: 1 });
+    setModalWeightText(null);
+    setModalCriterionType(criteriaTypes[col] ?? "benefit");
+    setEditingCriterion(col);
+  };
+
+  const handleCriterionModalSave = () => {
+    if (editingCriterion === null) return;
+    labelHistory(`Edit criterion ${criteriaNames[editingCriterion]}`);
+    updateItems(setCriteriaItems, numCriterias, editingCriterion, modalItem);
+    setEditingCriterion(null);
+    const weight = criteriaWeights[editingCriterion] ?? { value: 1 };
+    const isTypeChanged =
+      (criteriaTypes[editingCriterion] ?? "benefit") !== modalCriterionType;
+    // A new name or description alone keeps the results
+    if (
+      !isTypeChanged &&
+      weight.value === modalWeight.value &&
+      weight.importance === modalWeight.importance
+    )
+      return;
+    setCriteriaWeights((prev) =>
+      Array.from({ length: numCriterias }, (_, j) =>
+        j === editingCriterion ? modalWeight : (prev[j] ?? { value: 1 })
+      )
+    );
+    if (isTypeChanged) {
+      setCriteriaTypes((prev) =>
+        Array.from({ length: numCriterias }, (_, j) =>
+          j === editingCriterion ? modalCriterionType : (prev[j] ?? "benefit")
+        )
+      );
+      // The type changes the trapezoids, so the trapeze step has to be redone
+      setIsTransformedToTrapeze(false);
+      setInternalTrapezeMatrix([]);
+    }
+    setDisplayResults([]);
+    setBestProbability(null);
   };
 
-  const isTriComplete = (tri: TriangularNumber) =>
-    Number.isFinite(tri.left) &&
-    Number.isFinite(tri.middle) &&
-    Number.isFinite(tri.right);
+  const costCriteriaLabel = criteriaTypes
+    .map((type, j) => (type === "cost" ? criteriaNames[j] : ""))
+    .filter(Boolean)
+    .join(", ");
+
+  const handleCompareModeChange = (checked: boolean) => {
+    setIsCompareMode(checked);
+    setDisplayResults([]);
+    setBestProbability(null);
+  };
+
+  // Ранги для кожного методу у режимі порівняння
+  const methodRanks = useMemo(
+    () =>
+      Object.fromEntries(
+        CALCULATION_METHODS.map((method) => [
+          method,
+          rankByProbability(
+            displayResults.map((res) => getMethodProbability(res, method))
+          ),
+        ])
+      ) as Record<CalculationMethod, (number | undefined)[]>,
+    [displayResults]
+  );
+
   const nameError = useMemo(() => {
     const t = terms[currentTermIndex];
     if (!t) return "";
@@ -598,15 +3943,25 @@ function App() {
     );
     return dup ? "Short name must be unique" : "";
   }, [terms, currentTermIndex]);
-  const triError = useMemo(() => {
+  const shapeError = useMemo(() => {
     const t = terms[currentTermIndex];
     if (!t) return "";
-    if (!isTriComplete(t.tri)) return "Fill all fields";
-    const { left, middle, right } = t.tri;
-    if (left === middle && middle === right)
-      return "Require left < middle or  middle < right";
-    return "";
+    return getTermShapeError(t);
   }, [terms, currentTermIndex]);
+  const scaleIssues = useMemo(() => diagnoseTermScale(terms), [terms]);
+
+  const handleFixScale = (
+    fix: (terms: LinguisticTerm[]) => LinguisticTerm[]
+  ) => {
+    labelHistory("Fix term scale");
+    // Unfinished terms stay at the end, the fix only moves complete ones
+    setTerms([
+      ...fix(terms.filter(isTermComplete)),
+      ...terms.filter((t) => !isTermComplete(t)),
+    ]);
+    setCurrentTermIndex(0);
+  };
+
   const hasAnyError = useMemo(() => {
     if (terms.length === 0) return true;
     const names = new Set<string>();
@@ -620,60 +3975,467 @@ function App() {
       if (names.has(n) || shorts.has(s)) return true;
       names.add(n);
       shorts.add(s);
-      if (!isTriComplete(t.tri)) return true;
-      const { left, middle, right } = t.tri;
-      if (left === middle && middle === right) return true;
+      if (getTermShapeError(t)) return true;
     }
     return false;
   }, [terms]);
 
-  const chartData = useMemo(() => {
-    const completedTerms = terms.filter((t) => isTriComplete(t.tri));
-    const minLeft = completedTerms.length
-      ? Math.min(...completedTerms.map((t) => orderTriangular(t.tri).left))
-      : 0;
-    const maxRight = completedTerms.length
-      ? Math.max(...completedTerms.map((t) => orderTriangular(t.tri).right))
-      : 1;
-    const span = Math.max(1e-6, maxRight - minLeft);
-    const steps = 300;
-    const xs = Array.from(
-      { length: steps + 1 },
-      (_, i) => minLeft + (i * span) / steps
-    );
-    const toPoints = (tri: TriangularNumber) => {
-      const o = orderTriangular(tri);
-      return xs.map((x) => {
-        if (x < o.left || x > o.right) return { x, y: 0 };
-        if (x === o.middle) return { x, y: 1 };
-        if (x < o.middle)
-          return { x, y: (x - o.left) / (o.middle - o.left || 1) };
-        return { x, y: (o.right - x) / (o.right - o.middle || 1) };
+  // Універсум термів [min left, max right]
+  const termUniverse = useMemo<Interval>(() => {
+    const completedTerms = terms.filter(isTermComplete);
+    if (completedTerms.length === 0) return { l: 0, r: 1 };
+    return {
+      l: Math.min(...completedTerms.map((t) => getTermTrapeze(t).a)),
+      r: Math.max(...completedTerms.map((t) => getTermTrapeze(t).d)),
+    };
+  }, [terms]);
+
+  const resolvedReference = useMemo(
+    () => resolveReference(probabilityReference, terms, numAlternatives),
+    [probabilityReference, terms, numAlternatives]
+  );
+
+  // Nothing is calculated against an inverted fixed range
+  const isReferenceRangeInvalid =
+    probabilityReference.kind === "fixed" && !resolvedReference;
+
+  const aggregationSettings = useMemo<AggregationSettings>(
+    () => ({
+      operator: aggregationOperator,
+      weights: Array.from(
+        { length: numCriterias },
+        (_, j) => criteriaWeights[j]?.value ?? 1
+      ),
+      universe: termUniverse,
+      optimism,
+      reference: resolvedReference ?? DEFAULT_REFERENCE,
+    }),
+    [
+      termUniverse,
+      aggregationOperator,
+      numCriterias,
+      criteriaWeights,
+      optimism,
+      resolvedReference,
+    ]
+  );
+
+  // Reference of the selected method, shown in the results header and chart
+  const referenceInterval = useMemo(
+    () =>
+      getReferenceInterval(
+        calculationMethod,
+        internalTrapezeMatrix,
+        alpha,
+        aggregationSettings
+      ),
+    [calculationMethod, internalTrapezeMatrix, alpha, aggregationSettings]
+  );
+  const formatInterval = (interval: Interval) =>
+    `[${Number(interval.l.toFixed(4))}, ${Number(interval.r.toFixed(4))}]`;
+  const referenceLabel =
+    !resolvedReference || probabilityReference.kind === "fixed"
+      ? formatInterval(referenceInterval)
+      : probabilityReference.kind === "term"
+        ? `α-cut of ${probabilityReference.shortName} = ${formatInterval(referenceInterval)}`
+        : `target alternative ${alternativeNames[probabilityReference.index]}${
+            isCompareMode ? "" : ` = ${formatInterval(referenceInterval)}`
+          }`;
+
+  // TOPSIS не залежить від α та методу і рахується з матриці трапецій
+  const topsis = useMemo(
+    () =>
+      isTopsisEnabled && isTransformedToTrapeze && displayResults.length > 0
+        ? fuzzyTopsis(
+            internalTrapezeMatrix,
+            aggregationSettings.weights,
+            termUniverse
+          )
+        : null,
+    [
+      isTopsisEnabled,
+      isTransformedToTrapeze,
+      displayResults.length,
+      internalTrapezeMatrix,
+      aggregationSettings.weights,
+      termUniverse,
+    ]
+  );
+  const topsisRanks = useMemo(
+    () =>
+      topsis
+        ? rankByProbability(topsis.alternatives.map((alt) => alt.closeness))
+        : [],
+    [topsis]
+  );
+
+  // The chart can show the terms in the units they were entered in
+  const chartTerms = showOriginalUnits && normalization ? originalTerms : terms;
+
+  const chartData = useMemo(
+    () => getMembershipChartData(chartTerms, currentTermIndex),
+    [chartTerms, currentTermIndex]
+  );
+
+  const chartOptions = useMemo(
+    () => getMembershipChartOptions(chartTerms),
+    [chartTerms]
+  );
+
+  // ----- Alpha sensitivity analysis -----
+  const sensitivityAnalysis = useMemo(() => {
+    if (!isSensitivityOpen || !isTransformedToTrapeze) return null;
+
+    const steps = Math.round(1 / sensitivityStep);
+    const alphas = Array.from({ length: steps + 1 }, (_, k) =>
+      Math.min(1, Number((k * sensitivityStep).toFixed(6)))
+    );
+    if (alphas[alphas.length - 1] < 1) alphas.push(1);
+
+    // Еталон може залежати від α (терм або цільова альтернатива)
+    const references = alphas.map((a) =>
+      getReferenceInterval(
+        calculationMethod,
+        internalTrapezeMatrix,
+        a,
+        aggregationSettings
+      )
+    );
+    const curves = internalTrapezeMatrix.map((trapezesForAlternative) =>
+      alphas.map((a, k) =>
+        trapezesForAlternative.length
+          ? calculateProbability(
+              aggregateAlternative(
+                calculationMethod,
+                trapezesForAlternative,
+                a,
+                aggregationSettings
+              ),
+              references[k]
+            )
+          : 0
+      )
+    );
+
+    // Лідери (з урахуванням рівності) для кожного значення α
+    const leaders = alphas.map((_, k) => {
+      const best = Math.max(...curves.map((curve) => curve[k]));
+      return curves
+        .map((curve, i) => (curve[k] === best ? i : -1))
+        .filter((i) => i !== -1);
+    });
+
+    const breakpoints: {
+      from: number;
+      to: number;
+      before: number[];
+      after: number[];
+    }[] = [];
+    for (let k = 1; k < alphas.length; k++) {
+      if (leaders[k].join() !== leaders[k - 1].join())
+        breakpoints.push({
+          from: alphas[k - 1],
+          to: alphas[k],
+          before: leaders[k - 1],
+          after: leaders[k],
+        });
+    }
+
+    return { alphas, curves, leaders, breakpoints };
+  }, [
+    isSensitivityOpen,
+    isTransformedToTrapeze,
+    sensitivityStep,
+    internalTrapezeMatrix,
+    calculationMethod,
+    aggregationSettings,
+  ]);
+
+  const sensitivityChartData = useMemo(() => {
+    if (!sensitivityAnalysis) return { datasets: [] };
+    const { alphas, curves } = sensitivityAnalysis;
+
+    const alternativeDatasets: ChartDataset<
+      "line",
+      { x: number; y: number }[]
+    >[] = curves.map((curve, i) => {
+      const color = SERIES_COLORS[i % SERIES_COLORS.length];
+      return {
+        label: alternativeNames[i],
+        data: alphas.map((a, k) => ({ x: a, y: curve[k] })),
+        parsing: false,
+        fill: false,
+        borderColor: color,
+        backgroundColor: color,
+        tension: 0,
+        pointRadius: 0,
+      };
+    });
+
+    const currentAlphaDataset: ChartDataset<
+      "line",
+      { x: number; y: number }[]
+    > = {
+      label: `current α = ${alpha}`,
+      data: [
+        { x: alpha, y: 0 },
+        { x: alpha, y: 1 },
+      ],
+      parsing: false,
+      fill: false,
+      borderColor: "rgba(0,0,0,0.5)",
+      borderWidth: 1,
+      pointRadius: 0,
+      borderDash: [4, 4],
+    };
+
+    return { datasets: [...alternativeDatasets, currentAlphaDataset] };
+  }, [sensitivityAnalysis, alpha, alternativeNames]);
+
+  const sensitivityChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      intersect: false,
+      mode: "nearest" as const,
+      axis: "x" as const,
+    },
+    plugins: { legend: { display: true } },
+    scales: {
+      x: {
+        type: "linear" as const,
+        min: 0,
+        max: 1,
+        title: { display: true, text: "α" },
+      },
+      y: {
+        min: 0,
+        max: 1,
+        ticks: { stepSize: 0.2 },
+        title: { display: true, text: "Probability" },
+      },
+    },
+  };
+
+  // ----- Aggregated trapezoids and final intervals -----
+  const [hoveredAlternative, setHoveredAlternative] = useState<number | null>(
+    null
+  );
+
+  const aggregatedTrapezes = useMemo(
+    () =>
+      isTransformedToTrapeze
+        ? internalTrapezeMatrix.map((row) =>
+            row.length ? combineTrapezes(row, aggregationSettings) : null
+          )
+        : [],
+    [isTransformedToTrapeze, internalTrapezeMatrix, aggregationSettings]
+  );
+
+  const aggregatedChartData = useMemo(
+    () => ({
+      datasets: aggregatedTrapezes.flatMap(
+        (trapeze, i): ChartDataset<"line", { x: number; y: number }[]>[] => {
+          if (!trapeze) return [];
+          const color = SERIES_COLORS[i % SERIES_COLORS.length];
+          return [
+            {
+              label: alternativeNames[i],
+              data: [
+                { x: trapeze.a, y: 0 },
+                { x: trapeze.b, y: 1 },
+                { x: trapeze.c, y: 1 },
+                { x: trapeze.d, y: 0 },
+              ],
+              parsing: false,
+              fill: false,
+              borderColor: color,
+              backgroundColor: color,
+              borderWidth: hoveredAlternative === i ? 4 : 2,
+              tension: 0,
+              pointRadius: 2,
+            },
+          ];
+        }
+      ),
+    }),
+    [aggregatedTrapezes, alternativeNames, hoveredAlternative]
+  );
+
+  const intervalsChartRange = {
+    min: Math.min(referenceInterval.l, termUniverse.l),
+    max: Math.max(referenceInterval.r, termUniverse.r),
+  };
+
+  const aggregatedChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: true },
+      title: { display: true, text: "Aggregated (generalized) trapezoids" },
+    },
+    scales: {
+      x: { type: "linear" as const, ...intervalsChartRange },
+      y: { min: 0, max: 1.05, ticks: { stepSize: 0.2 } },
+    },
+  };
+
+  // Range bars: alternative i is drawn at height n - i, the reference
+  // interval of the probability indicator at height 0
+  const intervalsChartData = useMemo(() => {
+    const n = displayResults.length;
+    const bars: ChartDataset<"line", { x: number; y: number }[]>[] =
+      displayResults.map((res, i) => {
+        const interval = getMethodInterval(res, calculationMethod);
+        const color = SERIES_COLORS[i % SERIES_COLORS.length];
+        return {
+          label: alternativeNames[i],
+          data: interval
+            ? [
+                { x: interval.l, y: n - i },
+                { x: interval.r, y: n - i },
+              ]
+            : [],
+          parsing: false,
+          fill: false,
+          borderColor: color,
+          backgroundColor: color,
+          borderWidth: hoveredAlternative === i ? 12 : 8,
+          borderCapStyle: "butt" as const,
+          pointRadius: 0,
+          pointHitRadius: 6,
+        };
       });
+    const reference: ChartDataset<"line", { x: number; y: number }[]> = {
+      label: `Reference ${formatInterval(referenceInterval)}`,
+      data: [
+        { x: referenceInterval.l, y: 0 },
+        { x: referenceInterval.r, y: 0 },
+      ],
+      parsing: false,
+      fill: false,
+      borderColor: "rgba(0,0,0,0.5)",
+      backgroundColor: "rgba(0,0,0,0.5)",
+      borderWidth: 8,
+      borderCapStyle: "butt",
+      pointRadius: 0,
     };
+    return { datasets: [...bars, reference] };
+  }, [
+    displayResults,
+    calculationMethod,
+    alternativeNames,
+    hoveredAlternative,
+    referenceInterval,
+  ]);
+
+  const intervalsChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      intersect: false,
+      mode: "nearest" as const,
+      axis: "y" as const,
+    },
+    // Hovering a bar highlights the same row of the results table
+    onHover: (_event: ChartEvent, elements: ActiveElement[]) => {
+      const index = elements[0]?.datasetIndex;
+      setHoveredAlternative(
+        index !== undefined && index < displayResults.length ? index : null
+      );
+    },
+    plugins: {
+      legend: { display: false },
+      title: {
+        display: true,
+        text: `Final intervals, ${METHOD_LABELS[calculationMethod].toLowerCase()} method (α = ${alpha})`,
+      },
+    },
+    scales: {
+      x: { type: "linear" as const, ...intervalsChartRange },
+      y: {
+        min: -0.5,
+        max: displayResults.length + 0.5,
+        ticks: {
+          stepSize: 1,
+          callback: (value: string | number) => {
+            const i = displayResults.length - Number(value);
+            return i === displayResults.length
+              ? "Reference"
+              : (alternativeNames[i] ?? "");
+          },
+        },
+      },
+    },
+  };
+
+  // ----- Hurwicz optimism curve -----
+  const isOptimismCurveShown =
+    displayResults.length > 0 &&
+    (calculationMethod === "hurwicz" || isCompareMode);
+
+  const optimismCurve = useMemo(() => {
+    if (!isOptimismCurveShown) return null;
+    const lambdas = Array.from({ length: 21 }, (_, k) => k / 20);
+    const references = lambdas.map((lambda) =>
+      getReferenceInterval("hurwicz", internalTrapezeMatrix, alpha, {
+        ...aggregationSettings,
+        optimism: lambda,
+      })
+    );
+    // Крайні інтервали не залежать від λ, тож рахуються один раз
+    const curves = internalTrapezeMatrix.map((trapezesForAlternative) => {
+      if (!trapezesForAlternative.length) return lambdas.map(() => 0);
+      const [pessimistic, optimistic] = (
+        ["pessimistic", "optimistic"] as const
+      ).map((method) =>
+        aggregateAlternative(
+          method,
+          trapezesForAlternative,
+          alpha,
+          aggregationSettings
+        )
+      );
+      return lambdas.map((lambda, k) =>
+        calculateProbability(
+          blendIntervals(pessimistic, optimistic, lambda),
+          references[k]
+        )
+      );
+    });
+    return { lambdas, curves };
+  }, [isOptimismCurveShown, internalTrapezeMatrix, alpha, aggregationSettings]);
+
+  const optimismChartData = useMemo(() => {
+    if (!optimismCurve) return { datasets: [] };
+    const { lambdas, curves } = optimismCurve;
 
-    const termDatasets: ChartDataset<"line", { x: number; y: number }[]>[] =
-      completedTerms.map((t) => {
-        const isCurrent = terms.indexOf(t) === currentTermIndex;
-        const stroke = isCurrent ? "rgb(239,68,68)" : "rgb(37,99,235)";
-        const fill = isCurrent ? "rgba(239,68,68,0.2)" : "rgba(37,99,235,0.15)";
-        return {
-          label: `${t.shortName} (${t.name})`,
-          data: toPoints(t.tri),
-          parsing: false,
-          fill: true,
-          borderColor: stroke,
-          backgroundColor: fill,
-          tension: 0,
-          pointRadius: 0,
-        };
-      });
+    const alternativeDatasets: ChartDataset<
+      "line",
+      { x: number; y: number }[]
+    >[] = curves.map((curve, i) => {
+      const color = SERIES_COLORS[i % SERIES_COLORS.length];
+      return {
+        label: alternativeNames[i],
+        data: lambdas.map((lambda, k) => ({ x: lambda, y: curve[k] })),
+        parsing: false,
+        fill: false,
+        borderColor: color,
+        backgroundColor: color,
+        borderWidth: hoveredAlternative === i ? 4 : 2,
+        tension: 0,
+        pointRadius: 0,
+      };
+    });
 
-    const yAxisDataset: ChartDataset<"line", { x: number; y: number }[]> = {
-      label: "y-axis",
+    const currentOptimismDataset: ChartDataset<
+      "line",
+      { x: number; y: number }[]
+    > = {
+      label: `current λ = ${optimism}`,
       data: [
-        { x: 0, y: 0 },
-        { x: 0, y: 1 },
+        { x: optimism, y: 0 },
+        { x: optimism, y: 1 },
       ],
       parsing: false,
       fill: false,
@@ -683,36 +4445,436 @@ function App() {
       borderDash: [4, 4],
     };
 
-    return {
-      datasets: [...termDatasets, yAxisDataset],
-    };
-  }, [terms, currentTermIndex]);
+    return { datasets: [...alternativeDatasets, currentOptimismDataset] };
+  }, [optimismCurve, optimism, alternativeNames, hoveredAlternative]);
+
+  const optimismChartOptions = {
+    ...sensitivityChartOptions,
+    plugins: {
+      legend: { display: true },
+      title: {
+        display: true,
+        text: `Probability vs. optimism λ (α = ${alpha})`,
+      },
+    },
+    scales: {
+      ...sensitivityChartOptions.scales,
+      x: {
+        ...sensitivityChartOptions.scales.x,
+        title: { display: true, text: "λ" },
+      },
+    },
+  };
+
+  const formatAlternatives = (indices: number[]) =>
+    indices.map((i) => alternativeNames[i]).join(", ");
+
+  // ----- Export of results -----
+  // One row per alternative and calculated method
+  const getResultRows = () => {
+    const methods = isCompareMode ? CALCULATION_METHODS : [calculationMethod];
+    return methods.flatMap((method) =>
+      displayResults.map((res, i) => ({
+        alternative: alternativeNames[i],
+        method,
+        interval: getMethodInterval(res, method),
+        probability: getMethodProbability(res, method),
+        rank: methodRanks[method][i],
+      }))
+    );
+  };
+
+  const handleExportResultsCsv = () => {
+    const criteriaHeader = ["Alternative", ...criteriaNames];
+    const lines = [
+      toCsvRow([
+        "Alpha",
+        alpha,
+        "Aggregation",
+        AGGREGATION_LABELS[aggregationOperator],
+        "Optimism (λ)",
+        optimism,
+        "Reference",
+        referenceLabel,
+      ]),
+      "",
+      toCsvRow(["Hesitant term sets"]),
+      toCsvRow(criteriaHeader),
+      ...internalIntervalLTSets.map((row, i) =>
+        toCsvRow([alternativeNames[i], ...row.map((set) => set.join(" "))])
+      ),
+      "",
+      toCsvRow(["Trapezoid matrix (a; b; c; d)"]),
+      toCsvRow(criteriaHeader),
+      ...internalTrapezeMatrix.map((row, i) =>
+        toCsvRow([alternativeNames[i], ...row.map(formatTrapeze)])
+      ),
+      "",
+      toCsvRow(["Results"]),
+      toCsvRow(["Alternative", "Method", "l", "r", "Probability", "Rank"]),
+      ...getResultRows().map((row) =>
+        toCsvRow([
+          row.alternative,
+          row.method,
+          row.interval?.l ?? "",
+          row.interval?.r ?? "",
+          row.probability ?? "",
+          row.rank ?? "",
+        ])
+      ),
+      ...(topsis
+        ? [
+            "",
+            toCsvRow(["Fuzzy TOPSIS"]),
+            toCsvRow(["Alternative", "D+", "D-", "Closeness", "Rank"]),
+            ...topsis.alternatives.map((alt, i) =>
+              toCsvRow([
+                alternativeNames[i],
+                alt.distancePositive,
+                alt.distanceNegative,
+                alt.closeness,
+                topsisRanks[i] ?? "",
+              ])
+            ),
+          ]
+        : []),
+    ];
+    downloadFile(lines.join("\n"), "decision-results.csv", "text/csv");
+  };
+
+  // Renders the membership chart off screen, the setup page chart is not
+  // mounted while the evaluation page is open
+  const renderMembershipChartImage = () => {
+    const canvas = document.createElement("canvas");
+    canvas.width = 800;
+    canvas.height = 360;
+    const chart = new ChartJS(canvas, {
+      type: "line",
+      data: chartData,
+      options: { ...chartOptions, responsive: false, animation: false },
+    });
+    const image = chart.toBase64Image();
+    chart.destroy();
+    return image;
+  };
+
+  const handlePrintReport = async () => {
+    const rows = getResultRows();
+    const cell = (text: string | number, best = false) =>
+      `<td${best ? ' class="best"' : ""}>${escapeHtml(String(text))}</td>`;
+
+    const termRows = terms
+      .map((t, i) =>
+        [
+          t.name,
+          t.shortName,
+          TERM_SHAPE_LABELS[t.shape ?? "triangular"],
+          formatTermParams(t),
+          ...(normalization ? [formatTermParams(originalTerms[i])] : []),
+        ]
+          .map((v) => cell(v))
+          .join("")
+      )
+      .map((r) => `<tr>${r}</tr>`)
+      .join("");
+    const alternativeRows = alternativeNames
+      .map(
+        (name, i) =>
+          `<tr>${cell(name)}${cell(alternativeItems[i]?.description ?? "")}</tr>`
+      )
+      .join("");
+    const criteriaRows = criteriaNames
+      .map((name, j) =>
+        [
+          name,
+          criteriaItems[j]?.description ?? "",
+          formatWeight(criteriaWeights[j]),
+          criteriaTypes[j] ?? "benefit",
+        ]
+          .map((v) => cell(v))
+          .join("")
+      )
+      .map((r) => `<tr>${r}</tr>`)
+      .join("");
+    const matrixRows = internalIntervalLTSets
+      .map(
+        (row, i) =>
+          `<tr>${cell(alternativeNames[i])}${row.map((set) => cell(set.join(", "))).join("")}</tr>`
+      )
+      .join("");
+    const resultRows = rows
+      .map(
+        (row) =>
+          `<tr>${cell(row.alternative)}${cell(METHOD_LABELS[row.method])}${cell(
+            row.interval
+              ? `[${row.interval.l.toFixed(4)}, ${row.interval.r.toFixed(4)}]`
+              : ""
+          )}${cell(row.probability?.toFixed(4) ?? "", row.rank === 1)}${cell(
+            row.rank ?? "",
+            row.rank === 1
+          )}</tr>`
+      )
+      .join("");
+    const topsisRows = topsis
+      ? topsis.alternatives
+          .map(
+            (alt, i) =>
+              `<tr>${cell(alternativeNames[i])}${cell(alt.distancePositive.toFixed(4))}${cell(
+                alt.distanceNegative.toFixed(4)
+              )}${cell(alt.closeness.toFixed(4), topsisRanks[i] === 1)}${cell(
+                topsisRanks[i] ?? "",
+                topsisRanks[i] === 1
+              )}</tr>`
+          )
+          .join("")
+      : "";
+    const best = rows
+      .filter((row) => row.rank === 1)
+      .map((row) => `${row.alternative} (${METHOD_LABELS[row.method]})`)
+      .join(", ");
+
+    const html = `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Decision report</title>
+<style>
+  body { font-family: sans-serif; margin: 24px; }
+  table { border-collapse: collapse; margin-bottom: 16px; }
+  th, td { border: 1px solid #999; padding: 4px 8px; text-align: left; }
+  td.best { background: #d7fcdf; font-weight: bold; }
+  img { max-width: 100%; }
+</style>
+</head>
+<body>
+<h1>Decision report</h1>
+<p>${escapeHtml(new Date().toLocaleString())}</p>
+<p>
+  α = ${alpha}<br />
+  Method: ${escapeHtml(isCompareMode ? "Compare methods" : METHOD_LABELS[calculationMethod])}<br />
+  Aggregation: ${escapeHtml(AGGREGATION_LABELS[aggregationOperator])}<br />
+  ${isCompareMode || calculationMethod === "hurwicz" ? `Optimism λ = ${optimism}<br />` : ""}
+  Reference: ${escapeHtml(referenceLabel)}<br />
+  Experts: ${escapeHtml(experts.map((e) => e.name).join(", "))}<br />
+  Best alternative: <strong>${escapeHtml(best)}</strong>
+</p>
+<h2>Linguistic terms</h2>
+${normalization ? `<p>Normalized from [${normalization.source.l}, ${normalization.source.r}] to [${normalization.target.l}, ${normalization.target.r}]${showOriginalUnits ? ", chart in original units" : ""}</p>` : ""}
+<table>
+<tr><th>Name</th><th>Short name</th><th>Shape</th><th>Parameters</th>${normalization ? "<th>Original units</th>" : ""}</tr>
+${termRows}
+</table>
+<img src="${renderMembershipChartImage()}" alt="Membership functions" />
+<h2>Alternatives</h2>
+<table>
+<tr><th>Alternative</th><th>Description</th></tr>
+${alternativeRows}
+</table>
+<h2>Criterias</h2>
+<table>
+<tr><th>Criterion</th><th>Description</th><th>Weight</th><th>Type</th></tr>
+${criteriaRows}
+</table>
+${matrixRows ? `<h2>Hesitant term sets</h2>\n<table>\n<tr><th></th>${criteriaNames.map((name) => `<th>${escapeHtml(name)}</th>`).join("")}</tr>\n${matrixRows}\n</table>` : ""}
+<h2>Results</h2>
+<table>
+<tr><th>Alternative</th><th>Method</th><th>Interval</th><th>Probability</th><th>Rank</th></tr>
+${resultRows}
+</table>
+${topsisRows ? `<h2>Fuzzy TOPSIS</h2>\n<table>\n<tr><th>Alternative</th><th>D⁺</th><th>D⁻</th><th>Closeness</th><th>Rank</th></tr>\n${topsisRows}\n</table>` : ""}
+</body>
+</html>`;
+
+    const reportWindow = window.open("", "_blank");
+    if (!reportWindow) {
+      // Pop-ups are blocked: save the report to print it from the file
+      downloadFile(html, "decision-report.html", "text/html");
+      return;
+    }
+    reportWindow.document.write(html);
+    reportWindow.document.close();
+    // The chart is a data URL, yet it is still decoded asynchronously; a
+    // broken image is printed as it is
+    await Promise.all(
+      Array.from(reportWindow.document.images, (image) =>
+        image.decode().catch(() => undefined)
+      )
+    );
+    reportWindow.focus();
+    reportWindow.print();
+  };
+
+  const handleExplain = (row: number, method: CalculationMethod) => {
+    setExplainMethod(method);
+    setExplainedAlternative(row);
+  };
+
+  // Повний шлях обчислення для однієї альтернативи: від оцінок експертів до
+  // показника ймовірності, з тими ж функціями, що й handleCalculateMethod
+  const getDerivation = (row: number, method: CalculationMethod) => {
+    const trapezes = internalTrapezeMatrix[row];
+    if (!trapezes?.length) return null;
+
+    const criteria = trapezes.map((used, j) => {
+      const ltSet = internalIntervalLTSets[row]?.[j] ?? [];
+      return {
+        name: criteriaNames[j],
+        type: criteriaTypes[j] ?? "benefit",
+        weight: aggregationSettings.weights[j],
+        rawCells: experts.map((expert) => ({
+          expert: expert.name,
+          text: getCellText(expert.tableData[row]?.[j] ?? {}),
+        })),
+        ltSet,
+        envelope: getTrapezeFromLTSets(ltSet, terms),
+        trapeze: used,
+        interval: getIntervalFromTrapeze(used, alpha),
+      };
+    });
+
+    const bound = (
+      label: string,
+      values: number[],
+      kind: "lower" | "upper"
+    ) => ({ label, ...aggregateBound(values, kind, aggregationSettings) });
+    let bounds;
+    let combined: Trapeze | null = null;
+    if (method === "generalized") {
+      bounds = [
+        bound(
+          "a",
+          trapezes.map((t) => t.a),
+          "lower"
+        ),
+        bound(
+          "b",
+          trapezes.map((t) => t.b),
+          "lower"
+        ),
+        bound(
+          "c",
+          trapezes.map((t) => t.c),
+          "upper"
+        ),
+        bound(
+          "d",
+          trapezes.map((t) => t.d),
+          "upper"
+        ),
+      ];
+      combined = {
+        a: bounds[0].value,
+        b: bounds[1].value,
+        c: bounds[2].value,
+        d: bounds[3].value,
+      };
+    } else if (method === "hurwicz") {
+      bounds = [
+        bound(
+          "l⁻ (pessimistic)",
+          criteria.map((c) => c.interval.l),
+          "lower"
+        ),
+        bound(
+          "r⁻ (pessimistic)",
+          criteria.map((c) => c.interval.r),
+          "lower"
+        ),
+        bound(
+          "l⁺ (optimistic)",
+          criteria.map((c) => c.interval.l),
+          "upper"
+        ),
+        bound(
+          "r⁺ (optimistic)",
+          criteria.map((c) => c.interval.r),
+          "upper"
+        ),
+      ];
+    } else {
+      const kind = method === "pessimistic" ? "lower" : "upper";
+      bounds = [
+        bound(
+          "l",
+          criteria.map((c) => c.interval.l),
+          kind
+        ),
+        bound(
+          "r",
+          criteria.map((c) => c.interval.r),
+          kind
+        ),
+      ];
+    }
+    const interval = combined
+      ? getIntervalFromTrapeze(combined, alpha)
+      : method === "hurwicz"
+        ? blendIntervals(
+            { l: bounds[0].value, r: bounds[1].value },
+            { l: bounds[2].value, r: bounds[3].value },
+            optimism
+          )
+        : { l: bounds[0].value, r: bounds[1].value };
 
-  const chartOptions = useMemo(() => {
-    const completedTerms = terms.filter((t) => isTriComplete(t.tri));
-    const minLeft = completedTerms.length
-      ? Math.min(...completedTerms.map((t) => orderTriangular(t.tri).left))
-      : 0;
-    const maxRight = completedTerms.length
-      ? Math.max(...completedTerms.map((t) => orderTriangular(t.tri).right))
-      : 1;
+    const reference = getReferenceInterval(
+      method,
+      internalTrapezeMatrix,
+      alpha,
+      aggregationSettings
+    );
 
     return {
-      responsive: true,
-      maintainAspectRatio: false,
-      interaction: { intersect: false, mode: "index" as const },
-      plugins: { legend: { display: true } },
-      scales: {
-        x: {
-          type: "linear" as const,
-          display: true,
-          min: minLeft,
-          max: maxRight,
-        },
-        y: { min: 0, max: 1, ticks: { stepSize: 0.2 } },
-      },
+      criteria,
+      bounds,
+      combined,
+      interval,
+      reference,
+      probability: calculateProbability(interval, reference),
     };
-  }, [terms]);
+  };
+
+  // D⁺, D⁻, closeness and rank columns of both results tables
+  const renderTopsisCells = (rowIndex: number) => {
+    const result = topsis?.alternatives[rowIndex];
+    if (!result) return null;
+    const isBest = topsisRanks[rowIndex] === 1;
+    const bestSx = { backgroundColor: isBest ? "#d7fcdf" : "inherit" };
+    return (
+      <>
+        <TableCell>{result.distancePositive.toFixed(4)}</TableCell>
+        <TableCell>{result.distanceNegative.toFixed(4)}</TableCell>
+        <TableCell sx={bestSx}>{result.closeness.toFixed(4)}</TableCell>
+        <TableCell sx={bestSx}>{topsisRanks[rowIndex]}</TableCell>
+      </>
+    );
+  };
+
+  const derivation =
+    explainedAlternative === null
+      ? null
+      : getDerivation(explainedAlternative, explainMethod);
+
+  const renderItemFields = (placeholder: string) => (
+    <>
+      <TextField
+        label="Name"
+        placeholder={placeholder}
+        value={modalItem.name}
+        onChange={(e) => setModalItem({ ...modalItem, name: e.target.value })}
+        fullWidth
+      />
+      <TextField
+        label="Description"
+        value={modalItem.description}
+        onChange={(e) =>
+          setModalItem({ ...modalItem, description: e.target.value })
+        }
+        multiline
+        minRows={2}
+        fullWidth
+      />
+    </>
+  );
 
   const renderCriteriaCellContent = (rowIndex: number, colIndex: number) => {
     if (isTransformedToTrapeze) {
@@ -747,9 +4909,101 @@ function App() {
           >
             <Stack spacing={2}>
               <Typography variant="h6">Settings</Typography>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <Select
+                  size="small"
+                  value={String(currentExpertIndex)}
+                  onChange={(e) =>
+                    setCurrentExpertIndex(Number(e.target.value))
+                  }
+                  sx={{ flex: 1 }}
+                >
+                  {experts.map((expert, k) => (
+                    <MenuItem key={k} value={String(k)}>
+                      {expert.name || `Expert ${k + 1}`}
+                    </MenuItem>
+                  ))}
+                </Select>
+                <IconButton aria-label="add expert" onClick={handleAddExpert}>
+                  <AddIcon />
+                </IconButton>
+                <IconButton
+                  aria-label="delete expert"
+                  disabled={experts.length <= 1}
+                  onClick={handleDeleteExpert}
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Stack>
+              <Stack direction="row" spacing={1}>
+                <TextField
+                  size="small"
+                  label="Expert name"
+                  value={experts[currentExpertIndex]?.name ?? ""}
+                  onChange={(e) => {
+                    labelHistory("Edit expert");
+                    updateCurrentExpert({ name: e.target.value });
+                  }}
+                />
+                <TextField
+                  size="small"
+                  label="Weight"
+                  type="number"
+                  value={
+                    expertWeightText ?? experts[currentExpertIndex]?.weight ?? 1
+                  }
+                  onChange={(e) => setExpertWeightText(e.target.value)}
+                  onBlur={() => {
+                    if (expertWeightText === null) return;
+                    const value = Number(expertWeightText);
+                    setExpertWeightText(null);
+                    if (
+                      expertWeightText.trim() === "" ||
+                      !Number.isFinite(value)
+                    )
+                      return;
+                    const weight = Math.max(0, value);
+                    if (weight === experts[currentExpertIndex]?.weight) return;
+                    labelHistory("Edit expert");
+                    updateCurrentExpert({ weight });
+                    resetTransformations();
+                  }}
+                  inputProps={{ min: 0, step: 0.1 }}
+                  sx={{ width: 90 }}
+                />
+              </Stack>
+              {experts.length > 1 && (
+                <Select
+                  size="small"
+                  value={expertMergeMode}
+                  onChange={(e) => {
+                    setExpertMergeMode(e.target.value as ExpertMergeMode);
+                    resetTransformations();
+                  }}
+                  fullWidth
+                >
+                  {(Object.keys(EXPERT_MERGE_LABELS) as ExpertMergeMode[]).map(
+                    (mode) => (
+                      <MenuItem key={mode} value={mode}>
+                        Merge experts: {EXPERT_MERGE_LABELS[mode]}
+                      </MenuItem>
+                    )
+                  )}
+                </Select>
+              )}
+              {hasZeroExpertWeights && (
+                <Typography variant="body2" color="error">
+                  Weighted merge needs at least one expert with a weight above 0
+                </Typography>
+              )}
+              <Divider />
               <Button
                 variant="contained"
-                disabled={!isAllCellsFilled() || isTransformedToIntervals}
+                disabled={
+                  !isAllCellsFilled() ||
+                  isTransformedToIntervals ||
+                  hasZeroExpertWeights
+                }
                 onClick={handleTransformToIntervals}
               >
                 Transform to intervals expert estimates
@@ -764,19 +5018,191 @@ function App() {
               <Select
                 value={calculationMethod}
                 onChange={handleCalculationMethodChange}
+                disabled={
+                  isCompareMode || isAveragingOperator(aggregationOperator)
+                }
                 fullWidth
               >
                 <MenuItem value="generalized">Generalized</MenuItem>
                 <MenuItem value="pessimistic">Pessimistic</MenuItem>
                 <MenuItem value="optimistic">Optimistic</MenuItem>
+                <MenuItem value="hurwicz">Hurwicz</MenuItem>
+              </Select>
+              {isAveragingOperator(aggregationOperator) && (
+                <Typography variant="body2" color="text.secondary">
+                  {AGGREGATION_LABELS[aggregationOperator]} does not tell lower
+                  and upper bounds apart, so only the generalized method is
+                  available
+                </Typography>
+              )}
+              {(calculationMethod === "hurwicz" || isCompareMode) && (
+                <TextField
+                  label="Optimism λ"
+                  type="number"
+                  value={optimismText ?? optimism}
+                  onChange={(e) => setOptimismText(e.target.value)}
+                  onBlur={() => {
+                    if (optimismText === null) return;
+                    const value = Number(optimismText);
+                    if (optimismText.trim() !== "" && Number.isFinite(value))
+                      handleOptimismChange(value);
+                    setOptimismText(null);
+                  }}
+                  inputProps={{ min: 0, max: 1, step: 0.05 }}
+                  helperText="0 = pessimistic, 1 = optimistic"
+                  fullWidth
+                />
+              )}
+              <Select
+                value={aggregationOperator}
+                onChange={handleAggregationOperatorChange}
+                fullWidth
+              >
+                {AGGREGATION_OPERATORS.map((operator) => (
+                  <MenuItem key={operator} value={operator}>
+                    {AGGREGATION_LABELS[operator]}
+                  </MenuItem>
+                ))}
+              </Select>
+              <Select
+                value={probabilityReference.kind}
+                onChange={(e) =>
+                  handleReferenceKindChange(
+                    e.target.value as ProbabilityReference["kind"]
+                  )
+                }
+                fullWidth
+              >
+                {(
+                  Object.keys(
+                    REFERENCE_KIND_LABELS
+                  ) as ProbabilityReference["kind"][]
+                ).map((kind) => (
+                  <MenuItem key={kind} value={kind}>
+                    Reference: {REFERENCE_KIND_LABELS[kind]}
+                  </MenuItem>
+                ))}
               </Select>
+              {probabilityReference.kind === "fixed" && (
+                <Stack direction="row" spacing={1}>
+                  {(["l", "r"] as const).map((end) => (
+                    <TextField
+                      key={end}
+                      label={end === "l" ? "Reference from" : "Reference to"}
+                      type="number"
+                      value={probabilityReference.interval[end]}
+                      onChange={(e) =>
+                        handleReferenceChange({
+                          kind: "fixed",
+                          interval: {
+                            ...probabilityReference.interval,
+                            [end]: Number(e.target.value),
+                          },
+                        })
+                      }
+                      error={!resolvedReference}
+                      fullWidth
+                    />
+                  ))}
+                </Stack>
+              )}
+              {probabilityReference.kind === "term" && (
+                <Select
+                  value={probabilityReference.shortName}
+                  onChange={(e) =>
+                    handleReferenceChange({
+                      kind: "term",
+                      shortName: e.target.value,
+                    })
+                  }
+                  fullWidth
+                >
+                  {terms.filter(isTermComplete).map((term) => (
+                    <MenuItem key={term.shortName} value={term.shortName}>
+                      α-cut of {term.shortName} ({term.name})
+                    </MenuItem>
+                  ))}
+                </Select>
+              )}
+              {probabilityReference.kind === "alternative" && (
+                <Select
+                  value={probabilityReference.index}
+                  onChange={(e) =>
+                    handleReferenceChange({
+                      kind: "alternative",
+                      index: Number(e.target.value),
+                    })
+                  }
+                  fullWidth
+                >
+                  {alternativeNames.map((name, i) => (
+                    <MenuItem key={i} value={i}>
+                      Target: {name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              )}
+              {!resolvedReference && (
+                <Typography variant="body2" color="error">
+                  {probabilityReference.kind === "fixed"
+                    ? "Reference from must not exceed Reference to"
+                    : "The reference no longer exists, [0, 1] is used instead"}
+                </Typography>
+              )}
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={isCompareMode}
+                    disabled={isAveragingOperator(aggregationOperator)}
+                    onChange={(e) => handleCompareModeChange(e.target.checked)}
+                  />
+                }
+                label="Compare methods"
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={isTopsisEnabled}
+                    onChange={(e) => setIsTopsisEnabled(e.target.checked)}
+                  />
+                }
+                label="Fuzzy TOPSIS"
+              />
               <Button
                 variant="contained"
-                disabled={!isTransformedToTrapeze}
+                disabled={!isTransformedToTrapeze || isReferenceRangeInvalid}
                 onClick={handleCalculateMethod}
               >
                 Calculate method
               </Button>
+              <Button
+                variant="outlined"
+                disabled={!isTransformedToTrapeze || isReferenceRangeInvalid}
+                onClick={() => setIsSensitivityOpen(true)}
+              >
+                Alpha sensitivity
+              </Button>
+              <Button
+                variant="outlined"
+                disabled={isTransformedToTrapeze}
+                onClick={() => setIsMatrixImportOpen(true)}
+              >
+                Import matrix (CSV / paste)
+              </Button>
+              <Button
+                variant="outlined"
+                disabled={displayResults.length === 0}
+                onClick={handleExportResultsCsv}
+              >
+                Export results (CSV)
+              </Button>
+              <Button
+                variant="outlined"
+                disabled={displayResults.length === 0}
+                onClick={handlePrintReport}
+              >
+                Print report
+              </Button>
               
               {/* --- NEW BUTTON START --- */}
               <Divider sx={{ pt: 1 }} />
@@ -788,6 +5214,8 @@ function App() {
                 Back to terms
               </Button>
               {/* --- NEW BUTTON END --- */}
+              {projectFileButtons}
+              {historyButtons}
 
             </Stack>
           </Box>
@@ -803,14 +5231,62 @@ function App() {
             }}
           >
             {/* --- MAIN CRITERIA TABLE --- */}
+            {experts.length > 1 && (
+              <Typography variant="subtitle1" gutterBottom>
+                {isTransformedToIntervals
+                  ? `Group matrix (${EXPERT_MERGE_LABELS[expertMergeMode].toLowerCase()} of ${experts.length} experts)`
+                  : `Estimates of ${experts[currentExpertIndex]?.name}`}
+              </Typography>
+            )}
+            <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={handleAddAlternative}
+              >
+                Alternative
+              </Button>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={handleAddCriterion}
+              >
+                Criteria
+              </Button>
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                sx={{ alignSelf: "center" }}
+              >
+                Click a row or column header to rename, reorder, duplicate or
+                delete it
+              </Typography>
+            </Stack>
             <TableContainer component={Paper}>
               <Table size="small">
                 <TableHead>
                   <TableRow>
                     <TableCell>Alt.</TableCell>
                     {Array.from({ length: numCriterias }, (_, i) => (
-                      <TableCell key={i} align="center">
-                        C{i + 1}
+                      <TableCell
+                        key={i}
+                        align="center"
+                        onClick={() => handleCriterionHeaderClick(i)}
+                        title={criteriaItems[i]?.description || undefined}
+                        sx={{
+                          cursor: "pointer",
+                          "&:hover": { backgroundColor: "#f0f0f0" },
+                        }}
+                      >
+                        {criteriaNames[i]}
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          display="block"
+                        >
+                          w = {formatWeight(criteriaWeights[i])} ·{" "}
+                          {criteriaTypes[i] ?? "benefit"}
+                        </Typography>
                       </TableCell>
                     ))}
                   </TableRow>
@@ -818,7 +5294,19 @@ function App() {
                 <TableBody>
                   {Array.from({ length: numAlternatives }, (_, rowIndex) => (
                     <TableRow key={rowIndex}>
-                      <TableCell>A{rowIndex + 1}</TableCell>
+                      <TableCell
+                        onClick={() => handleAlternativeHeaderClick(rowIndex)}
+                        title={
+                          alternativeItems[rowIndex]?.description || undefined
+                        }
+                        sx={{
+                          cursor: "pointer",
+                          whiteSpace: "nowrap",
+                          "&:hover": { backgroundColor: "#f0f0f0" },
+                        }}
+                      >
+                        {alternativeNames[rowIndex]}
+                      </TableCell>
                       {Array.from({ length: numCriterias }, (_, colIndex) => (
                         <TableCell
                           key={colIndex}
@@ -847,11 +5335,145 @@ function App() {
             </TableContainer>
 
             {/* --- NEW CALCULATION RESULTS TABLE --- */}
-            {displayResults.length > 0 && (
+            {/* --- METHODS COMPARISON TABLE --- */}
+            {isCompareMode && displayResults.length > 0 && (
+              <Box mt={4}>
+                <Typography variant="h6" gutterBottom>
+                  Calculation Results (Compare methods, aggregation:{" "}
+                  {AGGREGATION_LABELS[aggregationOperator]}, reference:{" "}
+                  {referenceLabel})
+                </Typography>
+                {costCriteriaLabel && (
+                  <Typography variant="body2" color="text.secondary">
+                    Cost criteria, mirrored on the term universe before
+                    aggregation: {costCriteriaLabel}
+                  </Typography>
+                )}
+                <TableContainer component={Paper}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell rowSpan={2}>Alternative</TableCell>
+                        {CALCULATION_METHODS.map((method) => (
+                          <TableCell key={method} colSpan={3} align="center">
+                            {METHOD_LABELS[method]}
+                          </TableCell>
+                        ))}
+                        <TableCell rowSpan={2}>Rank stability</TableCell>
+                        {topsis && (
+                          <TableCell colSpan={4} align="center">
+                            Fuzzy TOPSIS
+                          </TableCell>
+                        )}
+                        <TableCell rowSpan={2} />
+                      </TableRow>
+                      <TableRow>
+                        {CALCULATION_METHODS.map((method) => (
+                          <Fragment key={method}>
+                            <TableCell>Interval</TableCell>
+                            <TableCell>Probability</TableCell>
+                            <TableCell>Rank</TableCell>
+                          </Fragment>
+                        ))}
+                        {topsis && (
+                          <>
+                            <TableCell>D⁺</TableCell>
+                            <TableCell>D⁻</TableCell>
+                            <TableCell>CC</TableCell>
+                            <TableCell>Rank</TableCell>
+                          </>
+                        )}
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {displayResults.map((res, rowIndex) => {
+                        const ranks = CALCULATION_METHODS.map(
+                          (method) => methodRanks[method][rowIndex]
+                        );
+                        const isRankChanged = new Set(ranks).size > 1;
+                        return (
+                          <TableRow
+                            key={rowIndex}
+                            selected={hoveredAlternative === rowIndex}
+                          >
+                            <TableCell>{alternativeNames[rowIndex]}</TableCell>
+                            {CALCULATION_METHODS.map((method) => {
+                              const interval = getMethodInterval(res, method);
+                              const probability = getMethodProbability(
+                                res,
+                                method
+                              );
+                              const isBest =
+                                methodRanks[method][rowIndex] === 1;
+                              return (
+                                <Fragment key={method}>
+                                  <TableCell sx={{ whiteSpace: "nowrap" }}>
+                                    {interval &&
+                                      `[${interval.l.toFixed(4)}, ${interval.r.toFixed(4)}]`}
+                                  </TableCell>
+                                  <TableCell
+                                    sx={{
+                                      backgroundColor: isBest
+                                        ? "#d7fcdf"
+                                        : "inherit",
+                                    }}
+                                  >
+                                    {probability?.toFixed(4)}
+                                  </TableCell>
+                                  <TableCell
+                                    sx={{
+                                      backgroundColor: isBest
+                                        ? "#d7fcdf"
+                                        : "inherit",
+                                    }}
+                                  >
+                                    {methodRanks[method][rowIndex]}
+                                  </TableCell>
+                                </Fragment>
+                              );
+                            })}
+                            <TableCell
+                              sx={{
+                                backgroundColor: isRankChanged
+                                  ? "#fff4e5"
+                                  : "inherit",
+                              }}
+                            >
+                              {isRankChanged ? "Rank changes" : "Stable"}
+                            </TableCell>
+                            {renderTopsisCells(rowIndex)}
+                            <TableCell>
+                              <Button
+                                size="small"
+                                onClick={() =>
+                                  handleExplain(rowIndex, calculationMethod)
+                                }
+                              >
+                                Explain
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            )}
+
+            {!isCompareMode && displayResults.length > 0 && (
               <Box mt={4}>
                 <Typography variant="h6" gutterBottom>
-                  Calculation Results (Method: {calculationMethod})
+                  Calculation Results (Method: {calculationMethod}, aggregation:{" "}
+                  {AGGREGATION_LABELS[aggregationOperator]}, reference:{" "}
+                  {referenceLabel})
                 </Typography>
+                {costCriteriaLabel && (
+                  <Typography variant="body2" color="text.secondary">
+                    Cost criteria, mirrored on the term universe before
+                    aggregation: {costCriteriaLabel}
+                  </Typography>
+                )}
                 <TableContainer component={Paper}>
                   <Table size="small">
                     <TableHead>
@@ -881,12 +5503,34 @@ function App() {
                             <TableCell>Result Optimistic</TableCell>
                           </>
                         )}
+                        {/* --- HURWICZ HEADERS --- */}
+                        {calculationMethod === "hurwicz" && (
+                          <>
+                            <TableCell>
+                              Hurwicz Interval (λ = {optimism})
+                            </TableCell>
+                            <TableCell>Probability Hurwicz</TableCell>
+                            <TableCell>Result Hurwicz</TableCell>
+                          </>
+                        )}
+                        {topsis && (
+                          <>
+                            <TableCell>TOPSIS D⁺</TableCell>
+                            <TableCell>TOPSIS D⁻</TableCell>
+                            <TableCell>Closeness CC</TableCell>
+                            <TableCell>TOPSIS Rank</TableCell>
+                          </>
+                        )}
+                        <TableCell />
                       </TableRow>
                     </TableHead>
                     <TableBody>
                       {displayResults.map((res, rowIndex) => (
-                        <TableRow key={rowIndex}>
-                          <TableCell>A{rowIndex + 1}</TableCell>
+                        <TableRow
+                          key={rowIndex}
+                          selected={hoveredAlternative === rowIndex}
+                        >
+                          <TableCell>{alternativeNames[rowIndex]}</TableCell>
                           {/* --- GENERALIZED CELLS --- */}
                           {calculationMethod === "generalized" && (
                             <>
@@ -959,62 +5603,868 @@ function App() {
                                       : "inherit",
                                 }}
                               >
-                                {res.optProbability === bestProbability
-                                  ? bestProbability?.toFixed(4)
-                                  : ""}
-                              </TableCell>
-                            </>
-                          )}
+                                {res.optProbability === bestProbability
+                                  ? bestProbability?.toFixed(4)
+                                  : ""}
+                              </TableCell>
+                            </>
+                          )}
+                          {/* --- HURWICZ CELLS --- */}
+                          {calculationMethod === "hurwicz" && (
+                            <>
+                              <TableCell sx={{ whiteSpace: "nowrap" }}>
+                                [
+                                {res.hurInterval?.l.toFixed(4)}
+                                , {res.hurInterval?.r.toFixed(4)}
+                                ]
+                              </TableCell>
+                              <TableCell>
+                                {res.hurProbability?.toFixed(4)}
+                              </TableCell>
+                              <TableCell
+                                sx={{
+                                  backgroundColor:
+                                    res.hurProbability === bestProbability
+                                      ? "#d7fcdf"
+                                      : "inherit",
+                                }}
+                              >
+                                {res.hurProbability === bestProbability
+                                  ? bestProbability?.toFixed(4)
+                                  : ""}
+                              </TableCell>
+                            </>
+                          )}
+                          {renderTopsisCells(rowIndex)}
+                          <TableCell>
+                            <Button
+                              size="small"
+                              onClick={() =>
+                                handleExplain(rowIndex, calculationMethod)
+                              }
+                            >
+                              Explain
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            )}
+
+            {/* --- FUZZY TOPSIS IDEAL SOLUTIONS --- */}
+            {topsis && (
+              <Box mt={4}>
+                <Typography variant="h6" gutterBottom>
+                  Fuzzy TOPSIS ideal solutions
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Weighted normalized trapezoids; D⁺ and D⁻ sum the vertex
+                  distances to FPIS and FNIS, CC = D⁻ / (D⁺ + D⁻)
+                </Typography>
+                <TableContainer component={Paper}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Criteria</TableCell>
+                        <TableCell>FPIS A⁺ (a; b; c; d)</TableCell>
+                        <TableCell>FNIS A⁻ (a; b; c; d)</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {topsis.positive.map((positive, j) => (
+                        <TableRow key={j}>
+                          <TableCell>{criteriaNames[j]}</TableCell>
+                          <TableCell>{formatTrapeze(positive)}</TableCell>
+                          <TableCell>
+                            {formatTrapeze(topsis.negative[j])}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            )}
+
+            {/* --- AGGREGATED TRAPEZOIDS AND INTERVALS --- */}
+            {isTransformedToTrapeze && (
+              <Stack direction={{ xs: "column", lg: "row" }} spacing={2} mt={4}>
+                <Box sx={{ flex: 1, height: 300 }}>
+                  <Line
+                    data={aggregatedChartData}
+                    options={aggregatedChartOptions}
+                  />
+                </Box>
+                {displayResults.length > 0 && (
+                  <Box
+                    sx={{ flex: 1, height: 300 }}
+                    onMouseLeave={() => setHoveredAlternative(null)}
+                  >
+                    <Line
+                      data={intervalsChartData}
+                      options={intervalsChartOptions}
+                    />
+                  </Box>
+                )}
+              </Stack>
+            )}
+            {isOptimismCurveShown && (
+              <Box sx={{ height: 260, maxWidth: 640 }} mt={2}>
+                <Line data={optimismChartData} options={optimismChartOptions} />
+              </Box>
+            )}
+
+            {/* --- PAIRWISE RANKING --- */}
+            {pairwiseRanking && (
+              <Box mt={4}>
+                <Typography variant="h6" gutterBottom>
+                  Pairwise ranking (Method: {calculationMethod})
+                </Typography>
+                <TableContainer component={Paper}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>p(Aᵢ ≥ Aₖ)</TableCell>
+                        {displayResults.map((_, k) => (
+                          <TableCell key={k} align="center">
+                            {alternativeNames[k]}
+                          </TableCell>
+                        ))}
+                        <TableCell align="center">Score</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {pairwiseRanking.matrix.map((row, i) => (
+                        <TableRow key={i}>
+                          <TableCell>{alternativeNames[i]}</TableCell>
+                          {row.map((p, k) => (
+                            <TableCell
+                              key={k}
+                              align="center"
+                              sx={{
+                                backgroundColor:
+                                  i !== k && p > 0.5 + POSSIBILITY_EPSILON
+                                    ? "#d7fcdf"
+                                    : "inherit",
+                              }}
+                            >
+                              {i === k ? "—" : p.toFixed(4)}
+                            </TableCell>
+                          ))}
+                          <TableCell align="center">
+                            {pairwiseRanking.scores[i].toFixed(4)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+                <Typography sx={{ mt: 1 }}>
+                  Order: {pairwiseRanking.orderText}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Ties (p = 0.5):{" "}
+                  {pairwiseRanking.ties.length
+                    ? pairwiseRanking.ties
+                        .map(
+                          ([i, k]) =>
+                            `${alternativeNames[i]} = ${alternativeNames[k]}`
+                        )
+                        .join(", ")
+                    : "none"}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Incomparable (nested intervals, ordered only by p):{" "}
+                  {pairwiseRanking.incomparable.length
+                    ? pairwiseRanking.incomparable
+                        .map(
+                          ([i, k]) =>
+                            `${alternativeNames[i]} ? ${alternativeNames[k]}`
+                        )
+                        .join(", ")
+                    : "none"}
+                </Typography>
+              </Box>
+            )}
+
+            {/* --- EXPERT RANKINGS TABLE --- */}
+            {experts.length > 1 &&
+              displayResults.some((res) => res.expertProbabilities) && (
+                <Box mt={4}>
+                  <Typography variant="h6" gutterBottom>
+                    Expert rankings (Method: {calculationMethod})
+                  </Typography>
+                  <TableContainer component={Paper}>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Alternative</TableCell>
+                          <TableCell>Group</TableCell>
+                          {experts.map((expert, k) => (
+                            <TableCell key={k}>{expert.name}</TableCell>
+                          ))}
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {displayResults.map((_, rowIndex) => (
+                          <TableRow key={rowIndex}>
+                            <TableCell>{alternativeNames[rowIndex]}</TableCell>
+                            <TableCell
+                              sx={{
+                                backgroundColor:
+                                  methodRanks[calculationMethod][rowIndex] === 1
+                                    ? "#d7fcdf"
+                                    : "inherit",
+                              }}
+                            >
+                              {methodRanks[calculationMethod][rowIndex]}
+                            </TableCell>
+                            {experts.map((_, k) => (
+                              <TableCell
+                                key={k}
+                                sx={{
+                                  backgroundColor:
+                                    expertRanks[k]?.[rowIndex] === 1
+                                      ? "#d7fcdf"
+                                      : "inherit",
+                                }}
+                              >
+                                {expertRanks[k]?.[rowIndex]}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                </Box>
+              )}
+          </Box>
+        </Box>
+
+        {/* Modal for cell editing */}
+        <Dialog open={!!editingCell} onClose={() => setEditingCell(null)}>
+          <DialogTitle>
+            Edit Cell
+            {editingCell &&
+              `: ${alternativeNames[editingCell.row]} / ${criteriaNames[editingCell.col]}`}
+          </DialogTitle>
+          <DialogContent>
+            <Stack spacing={1} sx={{ mt: 1 }}>
+              <TextField
+                label="Estimate"
+                placeholder="between L and H"
+                value={modalExpression}
+                onChange={(e) => {
+                  setModalExpression(e.target.value);
+                  setModalPick({});
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleModalSave();
+                }}
+                error={
+                  !!modalExpressionCheck && "error" in modalExpressionCheck
+                }
+                helperText={
+                  !modalExpressionCheck
+                    ? "Empty estimate"
+                    : "error" in modalExpressionCheck
+                      ? modalExpressionCheck.error
+                      : `Terms: ${modalExpressionCheck.terms.join(", ")}`
+                }
+                autoFocus
+                fullWidth
+                slotProps={{ htmlInput: { spellCheck: false } }}
+              />
+              {modalExpressionCheck && "error" in modalExpressionCheck && (
+                <Typography
+                  sx={{ fontFamily: "monospace", whiteSpace: "pre-wrap" }}
+                >
+                  {modalExpression.slice(0, modalExpressionCheck.start)}
+                  <Box
+                    component="span"
+                    sx={{
+                      color: "error.main",
+                      textDecoration: "underline wavy",
+                      backgroundColor: "#fdecea",
+                    }}
+                  >
+                    {modalExpression.slice(
+                      modalExpressionCheck.start,
+                      modalExpressionCheck.end
+                    ) || " "}
+                  </Box>
+                  {modalExpression.slice(modalExpressionCheck.end)}
+                </Typography>
+              )}
+              <Stack direction="row" flexWrap="wrap" gap={0.5}>
+                {modalSuggestions.map((suggestion) => (
+                  <Button
+                    key={suggestion}
+                    size="small"
+                    variant="outlined"
+                    sx={{ minWidth: 0, textTransform: "none" }}
+                    onClick={() => handleSuggestionClick(suggestion)}
+                  >
+                    {suggestion}
+                  </Button>
+                ))}
+              </Stack>
+              <Stack direction="row" spacing={1}>
+                {(["from", "to"] as const).map((end) => (
+                  <Select
+                    key={end}
+                    size="small"
+                    value={modalPick[end] ?? ""}
+                    displayEmpty
+                    onChange={(e) =>
+                      handleModalPick({
+                        ...modalPick,
+                        [end]: e.target.value || undefined,
+                      })
+                    }
+                    fullWidth
+                  >
+                    <MenuItem value="">
+                      {end === "from" ? "From: —" : "To: —"}
+                    </MenuItem>
+                    {terms.map((t) => (
+                      <MenuItem key={t.shortName} value={t.shortName}>
+                        {end === "from" ? "From" : "To"}: {t.shortName}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                ))}
+              </Stack>
+              <Typography variant="caption" color="text.secondary">
+                {terms.map((t) => `${t.shortName} = ${t.name}`).join(", ")}
+              </Typography>
+            </Stack>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setEditingCell(null)}>Cancel</Button>
+            <Button
+              onClick={handleModalSave}
+              variant="contained"
+              disabled={
+                !!modalExpressionCheck && "error" in modalExpressionCheck
+              }
+            >
+              Save
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Step-by-step derivation of one alternative */}
+        <Dialog
+          open={explainedAlternative !== null}
+          onClose={() => setExplainedAlternative(null)}
+          maxWidth="lg"
+          fullWidth
+        >
+          <DialogTitle>
+            How the result of {alternativeNames[explainedAlternative ?? 0]} is
+            derived
+          </DialogTitle>
+          <DialogContent>
+            {!derivation ? (
+              <Typography color="text.secondary">
+                Transform the matrix to trapezoids first.
+              </Typography>
+            ) : (
+              <Stack spacing={2} sx={{ mt: 1 }}>
+                <Stack direction="row" spacing={2} alignItems="center">
+                  <Select
+                    size="small"
+                    value={explainMethod}
+                    onChange={(e) =>
+                      setExplainMethod(e.target.value as CalculationMethod)
+                    }
+                  >
+                    {CALCULATION_METHODS.map((method) => (
+                      <MenuItem key={method} value={method}>
+                        {METHOD_LABELS[method]}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                  <Typography variant="body2" color="text.secondary">
+                    α = {alpha}, aggregation:{" "}
+                    {AGGREGATION_LABELS[aggregationOperator]}
+                    {experts.length > 1 &&
+                      `, experts merged by ${EXPERT_MERGE_LABELS[expertMergeMode].toLowerCase()}`}
+                  </Typography>
+                </Stack>
+
+                <Typography variant="subtitle1">
+                  1–4. Estimates, hesitant term sets, trapezoids and α-cuts
+                </Typography>
+                <TableContainer component={Paper}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Criterion</TableCell>
+                        <TableCell>Estimates</TableCell>
+                        <TableCell>Term set</TableCell>
+                        <TableCell>Trapezoid (a; b; c; d)</TableCell>
+                        <TableCell>
+                          α-cut [α·b + (1−α)·a, α·c + (1−α)·d]
+                        </TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {derivation.criteria.map((c, j) => (
+                        <TableRow key={j}>
+                          <TableCell>
+                            {c.name}
+                            <Typography
+                              variant="caption"
+                              color="text.secondary"
+                              display="block"
+                            >
+                              {c.type} · w = {c.weight}
+                            </Typography>
+                          </TableCell>
+                          <TableCell>
+                            {c.rawCells.map((cell) => (
+                              <Typography key={cell.expert} variant="body2">
+                                {experts.length > 1 && `${cell.expert}: `}
+                                {cell.text || "—"}
+                              </Typography>
+                            ))}
+                          </TableCell>
+                          <TableCell>{`{${c.ltSet.join(", ")}}`}</TableCell>
+                          <TableCell sx={{ whiteSpace: "nowrap" }}>
+                            {c.envelope && formatTrapeze(c.envelope)}
+                            {c.type === "cost" && (
+                              <Typography
+                                variant="caption"
+                                color="text.secondary"
+                                display="block"
+                              >
+                                cost, mirrored on [{termUniverse.l},{" "}
+                                {termUniverse.r}]: {formatTrapeze(c.trapeze)}
+                              </Typography>
+                            )}
+                          </TableCell>
+                          <TableCell sx={{ whiteSpace: "nowrap" }}>
+                            [{c.interval.l.toFixed(4)},{" "}
+                            {c.interval.r.toFixed(4)}]
+                          </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
                   </Table>
                 </TableContainer>
-              </Box>
+
+                <Typography variant="subtitle1">
+                  5. {METHOD_LABELS[explainMethod]} aggregation
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {explainMethod === "generalized"
+                    ? "Combined trapezoid: a and b take the lower bound over the criterias' trapezoids, c and d the upper bound; its α-cut is the final interval."
+                    : explainMethod === "pessimistic"
+                      ? "Both ends of the final interval take the lower bound over the criterias' α-cuts."
+                      : explainMethod === "hurwicz"
+                        ? `The pessimistic [l⁻, r⁻] and optimistic [l⁺, r⁺] intervals are blended: I = λ·[l⁺, r⁺] + (1 − λ)·[l⁻, r⁻] with λ = ${optimism}.`
+                        : "Both ends of the final interval take the upper bound over the criterias' α-cuts."}
+                </Typography>
+                {OWA_QUANTIFIERS[aggregationOperator] && (
+                  <Typography variant="body2" color="text.secondary">
+                    OWA weights for the values sorted from largest to smallest:
+                    [
+                    {getOwaWeights(
+                      derivation.criteria.length,
+                      OWA_QUANTIFIERS[aggregationOperator]
+                    )
+                      .map((w) => w.toFixed(4))
+                      .join(", ")}
+                    ]
+                  </Typography>
+                )}
+                {derivation.bounds.map((b) => (
+                  <Typography key={b.label}>
+                    {b.label} = {b.value.toFixed(4)}{" "}
+                    <Typography component="span" color="text.secondary">
+                      {b.source === null
+                        ? `(${AGGREGATION_LABELS[aggregationOperator]} of all criterias)`
+                        : `(from ${criteriaNames[b.source]})`}
+                    </Typography>
+                  </Typography>
+                ))}
+                {derivation.combined && (
+                  <Typography>
+                    α-cut of ({formatTrapeze(derivation.combined)}): [{alpha}·
+                    {derivation.combined.b.toFixed(4)} + {Number((1 - alpha).toFixed(4))}·
+                    {derivation.combined.a.toFixed(4)}, {alpha}·
+                    {derivation.combined.c.toFixed(4)} + {Number((1 - alpha).toFixed(4))}·
+                    {derivation.combined.d.toFixed(4)}]
+                  </Typography>
+                )}
+                <Typography>
+                  I = [{derivation.interval.l.toFixed(4)},{" "}
+                  {derivation.interval.r.toFixed(4)}]
+                </Typography>
+
+                <Typography variant="subtitle1">
+                  6. Probability p(I ≥ R), R ={" "}
+                  {formatInterval(derivation.reference)}
+                </Typography>
+                <Typography sx={{ fontFamily: "monospace" }}>
+                  p = max(1 − max((R.r − l) / ((r − l) + (R.r − R.l)), 0), 0) =
+                  max(1 − max(({derivation.reference.r.toFixed(4)} −{" "}
+                  {derivation.interval.l.toFixed(4)}) / ((
+                  {derivation.interval.r.toFixed(4)} −{" "}
+                  {derivation.interval.l.toFixed(4)}) + (
+                  {derivation.reference.r.toFixed(4)} −{" "}
+                  {derivation.reference.l.toFixed(4)})), 0), 0) ={" "}
+                  <strong>{derivation.probability.toFixed(4)}</strong>
+                </Typography>
+              </Stack>
             )}
-          </Box>
-        </Box>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setExplainedAlternative(null)}>Close</Button>
+          </DialogActions>
+        </Dialog>
 
-        {/* Modal for cell editing */}
-        <Dialog open={!!editingCell} onClose={() => setEditingCell(null)}>
-          <DialogTitle>Edit Cell</DialogTitle>
+        {/* Modal for criterion weight */}
+        <Dialog
+          open={editingCriterion !== null}
+          onClose={() => setEditingCriterion(null)}
+        >
+          <DialogTitle>
+            Criterion {criteriaNames[editingCriterion ?? 0]}
+          </DialogTitle>
           <DialogContent>
             <Stack spacing={2} sx={{ mt: 1 }}>
+              {renderItemFields(`C${(editingCriterion ?? 0) + 1}`)}
               <Select
-                value={modalFrom}
-                onChange={(e) => setModalFrom(e.target.value)}
-                displayEmpty
+                value={modalCriterionType}
+                onChange={(e) =>
+                  setModalCriterionType(e.target.value as CriterionType)
+                }
                 fullWidth
               >
-                <MenuItem value="">None</MenuItem>
-                {terms.map((term) => (
-                  <MenuItem key={term.shortName} value={term.shortName}>
-                    {term.shortName} ({term.name})
-                  </MenuItem>
-                ))}
+                <MenuItem value="benefit">Benefit (higher is better)</MenuItem>
+                <MenuItem value="cost">Cost (lower is better)</MenuItem>
               </Select>
               <Select
-                value={modalTo}
-                onChange={(e) => setModalTo(e.target.value)}
+                value={modalWeight.importance ?? ""}
+                onChange={(e) => {
+                  const importance = IMPORTANCE_TERMS.find(
+                    (t) => t.shortName === e.target.value
+                  );
+                  setModalWeight(
+                    importance
+                      ? {
+                          value: importance.weight,
+                          importance: importance.shortName,
+                        }
+                      : { value: modalWeight.value }
+                  );
+                }}
                 displayEmpty
                 fullWidth
               >
-                <MenuItem value="">None</MenuItem>
-                {terms.map((term) => (
-                  <MenuItem key={term.shortName} value={term.shortName}>
-                    {term.shortName} ({term.name})
+                <MenuItem value="">Numeric weight</MenuItem>
+                {IMPORTANCE_TERMS.map((t) => (
+                  <MenuItem key={t.shortName} value={t.shortName}>
+                    {t.shortName} ({t.name})
                   </MenuItem>
                 ))}
               </Select>
+              <TextField
+                label="Weight"
+                type="number"
+                value={modalWeightText ?? modalWeight.value}
+                disabled={!!modalWeight.importance}
+                onChange={(e) => setModalWeightText(e.target.value)}
+                onBlur={() => {
+                  if (modalWeightText === null) return;
+                  const value = Number(modalWeightText);
+                  if (modalWeightText.trim() !== "" && Number.isFinite(value))
+                    setModalWeight({ value: Math.max(0, value) });
+                  setModalWeightText(null);
+                }}
+                inputProps={{ min: 0, step: 0.1 }}
+                fullWidth
+              />
             </Stack>
           </DialogContent>
           <DialogActions>
-            <Button onClick={() => setEditingCell(null)}>Cancel</Button>
-            <Button onClick={handleModalSave} variant="contained">
+            {editingCriterion !== null && (
+              <>
+                <IconButton
+                  aria-label="move criterion left"
+                  disabled={editingCriterion === 0}
+                  onClick={() =>
+                    handleCriterionEdit({
+                      kind: "move",
+                      index: editingCriterion,
+                      to: editingCriterion - 1,
+                    })
+                  }
+                >
+                  <ArrowBackIcon />
+                </IconButton>
+                <IconButton
+                  aria-label="move criterion right"
+                  disabled={editingCriterion >= numCriterias - 1}
+                  onClick={() =>
+                    handleCriterionEdit({
+                      kind: "move",
+                      index: editingCriterion,
+                      to: editingCriterion + 1,
+                    })
+                  }
+                >
+                  <ArrowForwardIcon />
+                </IconButton>
+                <IconButton
+                  aria-label="duplicate criterion"
+                  onClick={() =>
+                    handleCriterionEdit({
+                      kind: "duplicate",
+                      index: editingCriterion,
+                    })
+                  }
+                >
+                  <ContentCopyIcon />
+                </IconButton>
+                <IconButton
+                  aria-label="delete criterion"
+                  disabled={numCriterias <= 1}
+                  onClick={() =>
+                    handleCriterionEdit({
+                      kind: "remove",
+                      index: editingCriterion,
+                    })
+                  }
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </>
+            )}
+            <Box sx={{ flex: 1 }} />
+            <Button onClick={() => setEditingCriterion(null)}>Cancel</Button>
+            <Button onClick={handleCriterionModalSave} variant="contained">
+              Save
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Modal for alternative name */}
+        <Dialog
+          open={editingAlternative !== null}
+          onClose={() => setEditingAlternative(null)}
+        >
+          <DialogTitle>
+            Alternative {alternativeNames[editingAlternative ?? 0]}
+          </DialogTitle>
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              {renderItemFields(`A${(editingAlternative ?? 0) + 1}`)}
+            </Stack>
+          </DialogContent>
+          <DialogActions>
+            {editingAlternative !== null && (
+              <>
+                <IconButton
+                  aria-label="move alternative up"
+                  disabled={editingAlternative === 0}
+                  onClick={() =>
+                    handleAlternativeEdit({
+                      kind: "move",
+                      index: editingAlternative,
+                      to: editingAlternative - 1,
+                    })
+                  }
+                >
+                  <ArrowUpwardIcon />
+                </IconButton>
+                <IconButton
+                  aria-label="move alternative down"
+                  disabled={editingAlternative >= numAlternatives - 1}
+                  onClick={() =>
+                    handleAlternativeEdit({
+                      kind: "move",
+                      index: editingAlternative,
+                      to: editingAlternative + 1,
+                    })
+                  }
+                >
+                  <ArrowDownwardIcon />
+                </IconButton>
+                <IconButton
+                  aria-label="duplicate alternative"
+                  onClick={() =>
+                    handleAlternativeEdit({
+                      kind: "duplicate",
+                      index: editingAlternative,
+                    })
+                  }
+                >
+                  <ContentCopyIcon />
+                </IconButton>
+                <IconButton
+                  aria-label="delete alternative"
+                  disabled={numAlternatives <= 1}
+                  onClick={() =>
+                    handleAlternativeEdit({
+                      kind: "remove",
+                      index: editingAlternative,
+                    })
+                  }
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </>
+            )}
+            <Box sx={{ flex: 1 }} />
+            <Button onClick={() => setEditingAlternative(null)}>Cancel</Button>
+            <Button onClick={handleAlternativeModalSave} variant="contained">
               Save
             </Button>
           </DialogActions>
         </Dialog>
+
+        {/* Import of the evaluation matrix */}
+        <Dialog
+          open={isMatrixImportOpen}
+          onClose={() => setIsMatrixImportOpen(false)}
+          maxWidth="md"
+          fullWidth
+        >
+          <DialogTitle>
+            Import matrix of {experts[currentExpertIndex]?.name}
+          </DialogTitle>
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <Typography variant="body2" color="text.secondary">
+                Paste cells copied from a spreadsheet or load a CSV file:{" "}
+                {numAlternatives} rows × {numCriterias} columns, each cell
+                written as a short name, "within X and Y", "over X", "less X" or
+                an expression such as "at least M" or "not VL". A header row and
+                a label column are skipped.
+              </Typography>
+              <TextField
+                label="Matrix"
+                value={matrixImportText}
+                onChange={(e) => setMatrixImportText(e.target.value)}
+                multiline
+                minRows={6}
+                maxRows={16}
+                fullWidth
+                slotProps={{
+                  htmlInput: { style: { fontFamily: "monospace" } },
+                }}
+              />
+              <input
+                ref={matrixFileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/plain"
+                hidden
+                onChange={handleMatrixFileChange}
+              />
+              {matrixImport && matrixImport.errors.length > 0 && (
+                <Box>
+                  <Typography color="error">
+                    {matrixImport.errors.length} problem(s), nothing applied:
+                  </Typography>
+                  {matrixImport.errors.slice(0, 20).map((error) => (
+                    <Typography key={error} variant="body2" color="error">
+                      {error}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+              {matrixImport && matrixImport.errors.length === 0 && (
+                <Typography color="success.main">
+                  All {numAlternatives * numCriterias} cells are valid
+                </Typography>
+              )}
+            </Stack>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => matrixFileInputRef.current?.click()}>
+              Load CSV file
+            </Button>
+            <Button onClick={() => setIsMatrixImportOpen(false)}>Cancel</Button>
+            <Button
+              variant="contained"
+              disabled={!matrixImport || matrixImport.errors.length > 0}
+              onClick={handleMatrixImportApply}
+            >
+              Apply
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Alpha sensitivity analysis */}
+        <Dialog
+          open={isSensitivityOpen}
+          onClose={() => setIsSensitivityOpen(false)}
+          maxWidth="md"
+          fullWidth
+        >
+          <DialogTitle>
+            Alpha sensitivity (Method: {calculationMethod})
+          </DialogTitle>
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                label="Alpha step"
+                type="number"
+                value={sensitivityStepText ?? sensitivityStep}
+                onChange={(e) => setSensitivityStepText(e.target.value)}
+                onBlur={() => {
+                  if (sensitivityStepText === null) return;
+                  const value = Number(sensitivityStepText);
+                  if (
+                    sensitivityStepText.trim() !== "" &&
+                    Number.isFinite(value)
+                  )
+                    setSensitivityStep(Math.max(0.01, Math.min(0.5, value)));
+                  setSensitivityStepText(null);
+                }}
+                inputProps={{ min: 0.01, max: 0.5, step: 0.01 }}
+                sx={{ maxWidth: 200 }}
+              />
+              <Box sx={{ height: 320 }}>
+                <Line
+                  data={sensitivityChartData}
+                  options={sensitivityChartOptions}
+                />
+              </Box>
+              <Typography variant="subtitle1">
+                Top-ranked alternative changes
+              </Typography>
+              {sensitivityAnalysis?.breakpoints.length ? (
+                sensitivityAnalysis.breakpoints.map((bp) => (
+                  <Typography key={bp.to}>
+                    α ∈ ({bp.from.toFixed(2)}, {bp.to.toFixed(2)}]:{" "}
+                    {formatAlternatives(bp.before)} →{" "}
+                    {formatAlternatives(bp.after)}
+                  </Typography>
+                ))
+              ) : (
+                <Typography color="text.secondary">
+                  The best alternative is the same for every α
+                  {sensitivityAnalysis?.leaders.length
+                    ? `: ${formatAlternatives(sensitivityAnalysis.leaders[0])}`
+                    : ""}
+                </Typography>
+              )}
+            </Stack>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setIsSensitivityOpen(false)}>Close</Button>
+          </DialogActions>
+        </Dialog>
+        {projectFileControls}
       </Box>
     );
   }
@@ -1045,9 +6495,10 @@ function App() {
               label="Number of alternatives"
               type="number"
               value={numAlternatives}
-              onChange={(e) =>
-                setNumAlternatives(Math.max(1, Number(e.target.value)))
-              }
+              onChange={(e) => {
+                labelHistory("Change dimensions");
+                setNumAlternatives(Math.max(1, Number(e.target.value)));
+              }}
               inputProps={{ min: 1 }}
               fullWidth
             />
@@ -1055,9 +6506,10 @@ function App() {
               label="Number of criterias"
               type="number"
               value={numCriterias}
-              onChange={(e) =>
-                setNumCriterias(Math.max(1, Number(e.target.value)))
-              }
+              onChange={(e) => {
+                labelHistory("Change dimensions");
+                setNumCriterias(Math.max(1, Number(e.target.value)));
+              }}
               inputProps={{ min: 1 }}
               fullWidth
             />
@@ -1065,9 +6517,10 @@ function App() {
               label="Number of linguistic terms"
               type="number"
               value={numLinguisticTerms}
-              onChange={(e) =>
-                setNumLinguisticTerms(Math.max(1, Number(e.target.value)))
-              }
+              onChange={(e) => {
+                labelHistory("Change dimensions");
+                setNumLinguisticTerms(Math.max(1, Number(e.target.value)));
+              }}
               inputProps={{ min: 1 }}
               fullWidth
             />
@@ -1075,18 +6528,79 @@ function App() {
               label="Alpha"
               type="number"
               value={alpha}
-              onChange={(e) =>
-                setAlpha(Math.max(0, Math.min(1, Number(e.target.value))))
-              }
+              onChange={(e) => {
+                labelHistory("Change alpha");
+                setAlpha(Math.max(0, Math.min(1, Number(e.target.value))));
+              }}
               inputProps={{ min: 0, max: 1, step: 0.01 }}
               fullWidth
             />
+            <Button
+              variant="outlined"
+              onClick={() => setIsItemsDialogOpen(true)}
+            >
+              Name alternatives and criterias
+            </Button>
             <Stack direction="row" spacing={1}>
               <Button variant="contained">Accept</Button>
               <Button variant="outlined" color="secondary" onClick={resetAll}>
                 Reset all
               </Button>
             </Stack>
+            {projectFileButtons}
+            {historyButtons}
+            <Divider />
+            <Typography variant="h6">Scale diagnostics</Typography>
+            {terms.filter(isTermComplete).length < 2 ? (
+              <Typography variant="body2" color="text.secondary">
+                Define at least two terms to check the scale
+              </Typography>
+            ) : scaleIssues.length === 0 ? (
+              <Typography variant="body2" color="success.main">
+                No issues found
+              </Typography>
+            ) : (
+              <Stack spacing={0.5}>
+                {scaleIssues.map((issue, k) => (
+                  <Typography key={k} variant="body2" color="warning.main">
+                    {issue.message}
+                  </Typography>
+                ))}
+              </Stack>
+            )}
+            <Stack direction="row" flexWrap="wrap" gap={1}>
+              <Button
+                size="small"
+                variant="outlined"
+                disabled={!scaleIssues.some((i) => i.kind === "order")}
+                onClick={() => handleFixScale(sortTermsByCenter)}
+              >
+                Sort by center
+              </Button>
+              <Button
+                size="small"
+                variant="outlined"
+                disabled={!scaleIssues.some((i) => i.kind === "gap")}
+                onClick={() => handleFixScale(closeTermGaps)}
+              >
+                Close gaps
+              </Button>
+              <Button
+                size="small"
+                variant="outlined"
+                disabled={
+                  !scaleIssues.some(
+                    (i) =>
+                      i.kind === "gap" ||
+                      i.kind === "asymmetry" ||
+                      i.kind === "partition"
+                  )
+                }
+                onClick={() => handleFixScale(rebuildAsPartition)}
+              >
+                Rebuild as partition
+              </Button>
+            </Stack>
           </Stack>
         </Box>
 
@@ -1103,7 +6617,7 @@ function App() {
             {/* Upper sub-panel */}
             <Box>
               <Typography variant="h6" gutterBottom>
-                Triangular fuzzy number
+                {TERM_SHAPE_LABELS[currentShape]} fuzzy number
               </Typography>
               <Stack direction="row" spacing={2} alignItems="center">
                 <Stack spacing={1} sx={{ minWidth: 280 }}>
@@ -1159,99 +6673,186 @@ function App() {
                 <Divider flexItem orientation="vertical" />
 
                 <Stack spacing={2} sx={{ flex: 1 }}>
-                  <TextField
-                    label="Left"
-                    type="number"
-                    value={
-                      Number.isNaN(currentTerm.tri.left)
-                        ? ""
-                        : currentTerm.tri.left
-                    }
-                    onChange={(e) =>
-                      upsertCurrentTerm({
-                        tri: {
-                          ...currentTerm.tri,
-                          left:
-                            e.target.value === ""
-                              ? Number.NaN
-                              : Number(e.target.value),
-                        },
-                      })
-                    }
-                    slotProps={{ input: { inputMode: "decimal" } }}
-                    fullWidth
-                  />
-                  <TextField
-                    label="Middle"
-                    type="number"
-                    value={
-                      Number.isNaN(currentTerm.tri.middle)
-                        ? ""
-                        : currentTerm.tri.middle
-                    }
-                    onChange={(e) =>
-                      upsertCurrentTerm({
-                        tri: {
-                          ...currentTerm.tri,
-                          middle:
-                            e.target.value === ""
-                              ? Number.NaN
-                              : Number(e.target.value),
-                        },
-                      })
-                    }
-                    slotProps={{ input: { inputMode: "decimal" } }}
-                    fullWidth
-                  />
-                  <TextField
-                    label="Right"
-                    type="number"
-                    value={
-                      Number.isNaN(currentTerm.tri.right)
-                        ? ""
-                        : currentTerm.tri.right
-                    }
+                  <Select
+                    size="small"
+                    value={currentTerm.shape ?? "triangular"}
                     onChange={(e) =>
-                      upsertCurrentTerm({
-                        tri: {
-                          ...currentTerm.tri,
-                          right:
-                            e.target.value === ""
-                              ? Number.NaN
-                              : Number(e.target.value),
-                        },
-                      })
+                      handleTermShapeChange(e.target.value as TermShape)
                     }
-                    slotProps={{ input: { inputMode: "decimal" } }}
-                    fullWidth
-                  />
-                  {!!triError && (
+                  >
+                    {TERM_SHAPES.map((shape) => (
+                      <MenuItem key={shape} value={shape}>
+                        {TERM_SHAPE_LABELS[shape]}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                  {currentShape === "trapezoidal" &&
+                    (["a", "b", "c", "d"] as const).map((key) =>
+                      renderTermParamField(key, currentTerm.trap?.[key], (v) =>
+                        upsertCurrentTerm({
+                          trap: {
+                            ...(currentTerm.trap ?? {
+                              a: Number.NaN,
+                              b: Number.NaN,
+                              c: Number.NaN,
+                              d: Number.NaN,
+                            }),
+                            [key]: v,
+                          },
+                        })
+                      )
+                    )}
+                  {currentShape === "gaussian" &&
+                    (["mean", "sigma"] as const).map((key) =>
+                      renderTermParamField(
+                        key === "mean" ? "Mean" : "Sigma",
+                        currentTerm.gauss?.[key],
+                        (v) =>
+                          upsertCurrentTerm({
+                            gauss: {
+                              ...(currentTerm.gauss ?? {
+                                mean: Number.NaN,
+                                sigma: Number.NaN,
+                              }),
+                              [key]: v,
+                            },
+                          })
+                      )
+                    )}
+                  {currentShape !== "trapezoidal" &&
+                    currentShape !== "gaussian" && (
+                      <>
+                        <TextField
+                          label="Left"
+                          type="number"
+                          value={
+                            Number.isNaN(currentTerm.tri.left)
+                              ? ""
+                              : currentTerm.tri.left
+                          }
+                          onChange={(e) =>
+                            upsertCurrentTerm({
+                              tri: {
+                                ...currentTerm.tri,
+                                left:
+                                  e.target.value === ""
+                                    ? Number.NaN
+                                    : Number(e.target.value),
+                              },
+                            })
+                          }
+                          slotProps={{ input: { inputMode: "decimal" } }}
+                          fullWidth
+                        />
+                        <TextField
+                          label="Middle"
+                          type="number"
+                          value={
+                            Number.isNaN(currentTerm.tri.middle)
+                              ? ""
+                              : currentTerm.tri.middle
+                          }
+                          onChange={(e) =>
+                            upsertCurrentTerm({
+                              tri: {
+                                ...currentTerm.tri,
+                                middle:
+                                  e.target.value === ""
+                                    ? Number.NaN
+                                    : Number(e.target.value),
+                              },
+                            })
+                          }
+                          slotProps={{ input: { inputMode: "decimal" } }}
+                          fullWidth
+                        />
+                        <TextField
+                          label="Right"
+                          type="number"
+                          value={
+                            Number.isNaN(currentTerm.tri.right)
+                              ? ""
+                              : currentTerm.tri.right
+                          }
+                          onChange={(e) =>
+                            upsertCurrentTerm({
+                              tri: {
+                                ...currentTerm.tri,
+                                right:
+                                  e.target.value === ""
+                                    ? Number.NaN
+                                    : Number(e.target.value),
+                              },
+                            })
+                          }
+                          slotProps={{ input: { inputMode: "decimal" } }}
+                          fullWidth
+                        />
+                      </>
+                    )}
+                  {!!shapeError && (
                     <Typography variant="caption" color="error">
-                      {triError}
+                      {shapeError}
                     </Typography>
                   )}
                 </Stack>
               </Stack>
               <Stack direction="row" spacing={1} sx={{ mt: 2 }}>
+                {normalization ? (
+                  <Button
+                    variant="contained"
+                    onClick={handleRevertNormalization}
+                  >
+                    Revert to original units
+                  </Button>
+                ) : (
+                  <Button
+                    variant="contained"
+                    onClick={handleOpenNormalize}
+                    disabled={hasAnyError}
+                  >
+                    Normalize
+                  </Button>
+                )}
+                <Button variant="outlined" onClick={handleFinish}>
+                  Finish
+                </Button>
                 <Button
-                  variant="contained"
-                  onClick={normalizeCurrentTerm}
-                  disabled={
-                    hasAnyError ||
-                    (terms.length >= numLinguisticTerms &&
-                      currentTermIndex >= terms.length)
-                  }
+                  variant="outlined"
+                  onClick={() => setIsGeneratorOpen(true)}
                 >
-                  Normalize
+                  Generate scale
                 </Button>
-                <Button variant="outlined" onClick={handleFinish}>
-                  Finish
+                <Button variant="outlined" onClick={handleOpenLibrary}>
+                  Scale library
                 </Button>
               </Stack>
             </Box>
 
             <Divider />
 
+            {normalization && (
+              <Stack direction="row" spacing={2} alignItems="center">
+                <Typography variant="body2" color="text.secondary">
+                  Normalized from [{normalization.source.l},{" "}
+                  {normalization.source.r}] to [{normalization.target.l},{" "}
+                  {normalization.target.r}]
+                  {terms[currentTermIndex] &&
+                    isTermComplete(originalTerms[currentTermIndex]) &&
+                    `; this term in original units: ${formatTermParams(originalTerms[currentTermIndex])}`}
+                </Typography>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={showOriginalUnits}
+                      onChange={(e) => setShowOriginalUnits(e.target.checked)}
+                    />
+                  }
+                  label="Chart in original units"
+                />
+              </Stack>
+            )}
+
             {/* Bottom sub-panel - chart */}
             <Box sx={{ flex: 1, minHeight: 300 }}>
               <Line data={chartData} options={chartOptions} />
@@ -1259,6 +6860,363 @@ function App() {
           </Stack>
         </Box>
       </Box>
+      <Dialog
+        open={isGeneratorOpen}
+        onClose={() => setIsGeneratorOpen(false)}
+        fullWidth
+      >
+        <DialogTitle>Generate linguistic term scale</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField
+              label="Number of linguistic terms"
+              type="number"
+              value={numLinguisticTerms}
+              onChange={(e) => {
+                labelHistory("Change dimensions");
+                setNumLinguisticTerms(Math.max(1, Number(e.target.value)));
+              }}
+              inputProps={{ min: 1 }}
+              fullWidth
+            />
+            <Stack direction="row" spacing={1}>
+              <TextField
+                label="Universe min"
+                type="number"
+                value={generatorRange.l}
+                onChange={(e) =>
+                  setGeneratorRange((prev) => ({
+                    ...prev,
+                    l: Number(e.target.value),
+                  }))
+                }
+                error={!(generatorRange.l < generatorRange.r)}
+                fullWidth
+              />
+              <TextField
+                label="Universe max"
+                type="number"
+                value={generatorRange.r}
+                onChange={(e) =>
+                  setGeneratorRange((prev) => ({
+                    ...prev,
+                    r: Number(e.target.value),
+                  }))
+                }
+                error={!(generatorRange.l < generatorRange.r)}
+                helperText={
+                  generatorRange.l < generatorRange.r
+                    ? " "
+                    : "Max must be greater than min"
+                }
+                fullWidth
+              />
+            </Stack>
+            <Select
+              value={generatorPattern}
+              onChange={(e) =>
+                setGeneratorPattern(e.target.value as ScalePattern)
+              }
+              fullWidth
+            >
+              {(Object.keys(SCALE_PATTERN_LABELS) as ScalePattern[]).map(
+                (pattern) => (
+                  <MenuItem key={pattern} value={pattern}>
+                    {SCALE_PATTERN_LABELS[pattern]}
+                  </MenuItem>
+                )
+              )}
+            </Select>
+            <Typography variant="body2" color="text.secondary">
+              Replaces the current terms with:{" "}
+              {getStandardTermNames(numLinguisticTerms).join(", ")}
+            </Typography>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIsGeneratorOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            disabled={!(generatorRange.l < generatorRange.r)}
+            onClick={handleGenerateScale}
+          >
+            Generate
+          </Button>
+        </DialogActions>
+      </Dialog>
+      <Dialog
+        open={isItemsDialogOpen}
+        onClose={() => setIsItemsDialogOpen(false)}
+        fullWidth
+        maxWidth="md"
+      >
+        <DialogTitle>Alternatives and criterias</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {(
+              [
+                [
+                  "Alternatives",
+                  "A",
+                  numAlternatives,
+                  alternativeItems,
+                  setAlternativeItems,
+                ],
+                [
+                  "Criterias",
+                  "C",
+                  numCriterias,
+                  criteriaItems,
+                  setCriteriaItems,
+                ],
+              ] as const
+            ).map(([title, prefix, count, items, setItems]) => (
+              <Fragment key={prefix}>
+                <Typography variant="subtitle1">{title}</Typography>
+                {Array.from({ length: count }, (_, i) => (
+                  <Stack key={i} direction="row" spacing={1}>
+                    <TextField
+                      label="Name"
+                      placeholder={`${prefix}${i + 1}`}
+                      value={items[i]?.name ?? ""}
+                      onChange={(e) => {
+                        labelHistory("Name alternatives and criterias");
+                        updateItems(setItems, count, i, {
+                          name: e.target.value,
+                        });
+                      }}
+                      size="small"
+                    />
+                    <TextField
+                      label="Description"
+                      value={items[i]?.description ?? ""}
+                      onChange={(e) => {
+                        labelHistory("Name alternatives and criterias");
+                        updateItems(setItems, count, i, {
+                          description: e.target.value,
+                        });
+                      }}
+                      size="small"
+                      sx={{ flex: 1 }}
+                    />
+                  </Stack>
+                ))}
+              </Fragment>
+            ))}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIsItemsDialogOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+      <Dialog
+        open={isNormalizeOpen}
+        onClose={() => setIsNormalizeOpen(false)}
+        fullWidth
+      >
+        <DialogTitle>Normalize term scale</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              Maps every term linearly from the source universe to the target
+              range. The original units can be restored at any time.
+            </Typography>
+            {(["source", "target"] as const).map((key) => (
+              <Stack key={key} direction="row" spacing={1}>
+                {(["l", "r"] as const).map((end) => (
+                  <TextField
+                    key={end}
+                    label={`${key === "source" ? "Source" : "Target"} ${end === "l" ? "min" : "max"}`}
+                    type="number"
+                    value={
+                      Number.isNaN(normalizeForm[key][end])
+                        ? ""
+                        : normalizeForm[key][end]
+                    }
+                    onChange={(e) =>
+                      setNormalizeForm((prev) => ({
+                        ...prev,
+                        [key]: {
+                          ...prev[key],
+                          [end]:
+                            e.target.value === ""
+                              ? Number.NaN
+                              : Number(e.target.value),
+                        },
+                      }))
+                    }
+                    error={!isValidRange(normalizeForm[key])}
+                    fullWidth
+                  />
+                ))}
+              </Stack>
+            ))}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIsNormalizeOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            disabled={
+              !isValidRange(normalizeForm.source) ||
+              !isValidRange(normalizeForm.target)
+            }
+            onClick={handleNormalize}
+          >
+            Normalize all terms
+          </Button>
+        </DialogActions>
+      </Dialog>
+      <Dialog
+        open={pendingScale !== null}
+        onClose={() => setPendingScale(null)}
+        fullWidth
+      >
+        <DialogTitle>
+          Estimates use terms missing from the new scale
+        </DialogTitle>
+        <DialogContent>
+          <Typography gutterBottom>
+            {pendingScale?.invalidCells.length} cell(s) would lose their terms
+            and count as empty. Clear them to enter them again with the new
+            scale, or keep the current scale.
+          </Typography>
+          {pendingScale?.invalidCells.slice(0, 10).map((c) => (
+            <Typography key={`${c.expert}:${c.row}:${c.col}`} variant="body2">
+              {experts.length > 1 && `${experts[c.expert]?.name}: `}
+              {alternativeNames[c.row]} / {criteriaNames[c.col]} —{" "}
+              {getCellText(experts[c.expert]?.tableData[c.row]?.[c.col] ?? {})}
+            </Typography>
+          ))}
+          {(pendingScale?.invalidCells.length ?? 0) > 10 && (
+            <Typography variant="body2" color="text.secondary">
+              …and {(pendingScale?.invalidCells.length ?? 0) - 10} more
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingScale(null)}>
+            Keep current scale
+          </Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={handleConfirmPendingScale}
+          >
+            Clear cells and replace scale
+          </Button>
+        </DialogActions>
+      </Dialog>
+      <input
+        ref={libraryFileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={handleImportLibrary}
+      />
+      <Dialog
+        open={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        fullWidth
+        maxWidth="md"
+      >
+        <DialogTitle>Term-scale library</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Stack direction="row" spacing={1} alignItems="flex-start">
+              <TextField
+                label="Scale name"
+                value={newScaleName}
+                onChange={(e) => setNewScaleName(e.target.value)}
+                size="small"
+              />
+              <TextField
+                label="Description"
+                value={newScaleDescription}
+                onChange={(e) => setNewScaleDescription(e.target.value)}
+                size="small"
+                sx={{ flex: 1 }}
+              />
+              <Button
+                variant="contained"
+                disabled={
+                  !newScaleName.trim() ||
+                  terms.length === 0 ||
+                  !terms.every(isTermComplete)
+                }
+                onClick={handleSaveScale}
+              >
+                Save current
+              </Button>
+            </Stack>
+            <Divider />
+            {savedScales.length === 0 ? (
+              <Typography color="text.secondary">No saved scales</Typography>
+            ) : (
+              <Stack direction="row" spacing={2}>
+                <Stack spacing={1} divider={<Divider />} sx={{ flex: 1 }}>
+                  {savedScales.map((scale) => (
+                    <Stack
+                      key={scale.id}
+                      direction="row"
+                      spacing={1}
+                      alignItems="center"
+                      onMouseEnter={() => setPreviewScaleId(scale.id)}
+                      sx={{
+                        p: 0.5,
+                        bgcolor:
+                          scale.id === previewScale?.id
+                            ? "action.selected"
+                            : undefined,
+                      }}
+                    >
+                      <Box sx={{ flex: 1 }}>
+                        <Typography>{scale.name}</Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {scale.terms.map((t) => t.shortName).join(", ")}
+                          {scale.description ? ` — ${scale.description}` : ""}
+                        </Typography>
+                      </Box>
+                      <Button
+                        variant="contained"
+                        size="small"
+                        onClick={() => handleLoadScale(scale)}
+                      >
+                        Load
+                      </Button>
+                      <IconButton
+                        aria-label="delete scale"
+                        onClick={() => handleDeleteScale(scale.id)}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </Stack>
+                  ))}
+                </Stack>
+                {previewScale && (
+                  <Box sx={{ flex: 1, minHeight: 240 }}>
+                    <Line
+                      data={getMembershipChartData(previewScale.terms, -1)}
+                      options={getMembershipChartOptions(previewScale.terms)}
+                    />
+                  </Box>
+                )}
+              </Stack>
+            )}
+            <Typography variant="body2" color="text.secondary">
+              Loading a scale replaces the current terms.
+            </Typography>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleExportLibrary}>Export library</Button>
+          <Button onClick={() => libraryFileInputRef.current?.click()}>
+            Import library
+          </Button>
+          <Button onClick={() => setIsLibraryOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+      {projectFileControls}
     </Box>
   );
 }